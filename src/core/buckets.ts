@@ -0,0 +1,30 @@
+export const DEFAULT_BUCKETS = 256;
+
+/**
+ * 32-bit FNV-1a hash of the UTF-8 bytes of `value`. Stable across platforms,
+ * so every client puts a document in the same bucket.
+ */
+export function fnv1a32(value: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(value)) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function assertBucketCount(buckets: number): void {
+  if (!Number.isInteger(buckets) || buckets < 1) {
+    throw new Error(`buckets must be a positive integer, got ${buckets}`);
+  }
+}
+
+/**
+ * Returns the bucket file name (without `.json`) for a document id: the
+ * bucket number in hex, zero-padded so all names have the same length
+ * (`00` … `ff` for 256 buckets).
+ */
+export function bucketName(id: string, buckets: number): string {
+  const width = Math.max(1, (buckets - 1).toString(16).length);
+  return (fnv1a32(String(id)) % buckets).toString(16).padStart(width, "0");
+}
@@ -0,0 +1,44 @@
+import { Conflict, ConflictResolver, Schema } from "./types.js";
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Keeps the version in storage and discards this client's change.
+ */
+export const remoteWins: ConflictResolver<any> = ({ remote }) => remote;
+
+/**
+ * Overwrites the version in storage with this client's change.
+ */
+export const localWins: ConflictResolver<any> = ({ local }) => local;
+
+/**
+ * Merges field by field: fields this client changed since it read the
+ * document take its value, every other field keeps the remote value.
+ * If either side deleted the document, this client's version wins as a whole.
+ */
+export function fieldLevelLastWriterWins<T extends Schema>({
+  base,
+  local,
+  remote,
+}: Conflict<T>): T | null {
+  if (local === null || remote === null) {
+    return local;
+  }
+
+  const merged: Record<string, unknown> = { ...remote };
+  const fields = new Set([...Object.keys(base ?? {}), ...Object.keys(local)]);
+  for (const field of fields) {
+    if (isSame(local[field], base?.[field])) {
+      continue;
+    }
+    if (field in local) {
+      merged[field] = local[field];
+    } else {
+      delete merged[field];
+    }
+  }
+  return merged as T;
+}
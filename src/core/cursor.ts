@@ -0,0 +1,45 @@
+import { SortOptions } from "./types.js";
+
+interface CursorPayload {
+  k: string[]; // The sort keys the cursor was created for
+  v: unknown[]; // The last item's value for each key
+}
+
+function sortSignature<T>(sort: SortOptions<T>[]): string[] {
+  return sort.map((key) => `${key.field}:${key.order}`);
+}
+
+/**
+ * Encodes the position after an item, given its sort key values, as an
+ * opaque URL-safe string.
+ */
+export function encodeCursor<T>(sort: SortOptions<T>[], values: unknown[]): string {
+  const payload: CursorPayload = { k: sortSignature(sort), v: values };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Returns the sort key values stored in a cursor. Throws if the cursor is
+ * malformed or was created for a different sort.
+ */
+export function decodeCursor<T>(cursor: string, sort: SortOptions<T>[]): unknown[] {
+  let payload: CursorPayload;
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (!Array.isArray(payload?.k) || !Array.isArray(payload.v)) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (payload.k.join(",") !== sortSignature(sort).join(",")) {
+    throw new Error("Cursor was created for a different sort order");
+  }
+  return payload.v;
+}
@@ -0,0 +1,178 @@
+import { FilterExpression, FilterOperator, FilterPredicate } from "./types.js";
+import { getPathValues } from "./path.js";
+
+export function matchesFilter<T>(item: T, filter: FilterExpression<T>): boolean {
+  if ("and" in filter) {
+    return filter.and.every((child) => matchesFilter(item, child));
+  }
+  if ("or" in filter) {
+    return filter.or.some((child) => matchesFilter(item, child));
+  }
+  if ("not" in filter) {
+    return !matchesFilter(item, filter.not);
+  }
+  return matchesPredicate(item, filter);
+}
+
+/**
+ * A field with `[*]` has one value per array element and matches if any of
+ * them does. The negative operators `neq` and `nin` then require that none
+ * of them matches, and `exists` that at least one is defined.
+ */
+function matchesPredicate<T>(item: T, filter: FilterPredicate<T>): boolean {
+  const values = getPathValues(item, filter.field);
+  switch (filter.operator) {
+    case "neq":
+      return !values.some((val) => compare(val, "eq", filter.value));
+    case "nin":
+      return !values.some((val) => compare(val, "in", filter.value));
+    case "exists":
+      return values.some((val) => val !== undefined) === Boolean(filter.value);
+    default:
+      return values.some((val) => compare(val, filter.operator, filter.value));
+  }
+}
+
+function compare(val: any, operator: FilterOperator, value: any): boolean {
+  switch (operator) {
+    case "eq":
+      return isEqual(val, value);
+    case "neq":
+      return !isEqual(val, value);
+    case "gt":
+      return isOrdered(val, value, (a, b) => a > b);
+    case "gte":
+      return isOrdered(val, value, (a, b) => a >= b);
+    case "lt":
+      return isOrdered(val, value, (a, b) => a < b);
+    case "lte":
+      return isOrdered(val, value, (a, b) => a <= b);
+    case "between":
+      return (
+        Array.isArray(value) &&
+        isOrdered(val, value[0], (a, b) => a >= b) &&
+        isOrdered(val, value[1], (a, b) => a <= b)
+      );
+    case "contains":
+      if (Array.isArray(val)) {
+        return val.includes(value);
+      }
+      return typeof val === "string" && val.includes(value as string);
+    case "icontains": {
+      const needle = String(value).toLowerCase();
+      if (Array.isArray(val)) {
+        return val.some(
+          (element) =>
+            typeof element === "string" && element.toLowerCase() === needle
+        );
+      }
+      return typeof val === "string" && val.toLowerCase().includes(needle);
+    }
+    case "startsWith":
+      return typeof val === "string" && val.startsWith(value);
+    case "endsWith":
+      return typeof val === "string" && val.endsWith(value);
+    case "regex":
+      // search() ignores lastIndex, so /g and /y patterns can be reused
+      return typeof val === "string" && val.search(value) !== -1;
+    case "in":
+      return (
+        Array.isArray(value) && value.some((option) => isEqual(val, option))
+      );
+    case "nin":
+      return !compare(val, "in", value);
+    case "size":
+      return Array.isArray(val) && val.length === value;
+    case "elemMatch":
+      return (
+        Array.isArray(val) &&
+        val.some((element) => matchesFilter(element, value))
+      );
+    default:
+      return true;
+  }
+}
+
+// A Date on either side compares by time, so Date values match ISO strings
+function toComparable(val: any, other: any): any {
+  if (!(val instanceof Date) && !(other instanceof Date)) {
+    return val;
+  }
+  if (val instanceof Date) {
+    return val.getTime();
+  }
+  return typeof val === "string" ? Date.parse(val) : val;
+}
+
+function isEqual(val: any, value: any): boolean {
+  return toComparable(val, value) === toComparable(value, val);
+}
+
+// null and undefined are neither greater nor smaller than anything
+function isOrdered(
+  val: any,
+  value: any,
+  test: (a: any, b: any) => boolean
+): boolean {
+  if (val === null || val === undefined || value === null || value === undefined) {
+    return false;
+  }
+  return test(toComparable(val, value), toComparable(value, val));
+}
+
+/**
+ * Narrows an expression down to the items that can match it, using `lookup`
+ * (an index query that returns null for unindexed fields). The result is a
+ * superset of the matches, so the expression must still be applied to it.
+ * Returns null when some branch can only be answered by a full scan.
+ *
+ * `eq` and `in` predicates on indexed fields are resolved directly; an `and`
+ * group uses its most selective resolvable branch and an `or` group the union
+ * of all branches. `not` always needs a full scan.
+ */
+export function filterCandidates<T>(
+  filter: FilterExpression<T>,
+  lookup: (field: string, value: unknown) => T[] | null
+): T[] | null {
+  if ("and" in filter) {
+    let best: T[] | null = null;
+    for (const child of filter.and) {
+      const candidates = filterCandidates(child, lookup);
+      if (candidates && (!best || candidates.length < best.length)) {
+        best = candidates;
+      }
+    }
+    return best;
+  }
+  if ("or" in filter) {
+    const union = new Set<T>();
+    for (const child of filter.or) {
+      const candidates = filterCandidates(child, lookup);
+      if (!candidates) {
+        return null;
+      }
+      candidates.forEach((item) => union.add(item));
+    }
+    return [...union];
+  }
+  if ("not" in filter) {
+    return null;
+  }
+  // The index holds stored values, so a Date cannot be looked up in it
+  if (filter.operator === "eq" && !(filter.value instanceof Date)) {
+    return lookup(filter.field, filter.value);
+  }
+  if (filter.operator === "in" && Array.isArray(filter.value)) {
+    return filterCandidates(
+      {
+        or: filter.value.map((value) => ({
+          field: filter.field,
+          operator: "eq" as const,
+          value,
+        })),
+      },
+      lookup
+    );
+  }
+  return null;
+}
@@ -1,24 +1,39 @@
 import { Schema } from "./types.js";
+import { getPathValues } from "./path.js";
 
+/**
+ * Maps field values to items. Fields are dot paths; a path with `[*]` files
+ * an item under each of its array elements' values.
+ */
 export class Indexer<T extends Schema> {
-  private indexes = new Map<keyof T, Map<any, Set<T>>>();
+  private indexes = new Map<string, Map<any, Set<T>>>();
 
-  build(items: T[], fields: (keyof T)[]) {
+  build(items: T[], fields: string[]) {
     this.indexes.clear();
     for (const field of fields) {
-      const fieldIndex = new Map<any, Set<T>>();
-      for (const item of items) {
-        const val = item[field];
-        if (!fieldIndex.has(val)) {
-          fieldIndex.set(val, new Set());
-        }
-        fieldIndex.get(val)!.add(item);
+      this.addIndex(items, field);
+    }
+  }
+
+  /** Indexes one more field of the given items. */
+  addIndex(items: T[], field: string) {
+    const fieldIndex = new Map<any, Set<T>>();
+    this.indexes.set(field, fieldIndex);
+    for (const item of items) {
+      this.file(fieldIndex, field, item);
+    }
+  }
+
+  private file(fieldIndex: Map<any, Set<T>>, field: string, item: T) {
+    for (const val of getPathValues(item, field)) {
+      if (!fieldIndex.has(val)) {
+        fieldIndex.set(val, new Set());
       }
-      this.indexes.set(field, fieldIndex);
+      fieldIndex.get(val)!.add(item);
     }
   }
 
-  query(field: keyof T, value: any): T[] | null {
+  query(field: string, value: any): T[] | null {
     const fieldIndex = this.indexes.get(field);
     if (!fieldIndex) return null;
 
@@ -28,20 +43,14 @@ export class Indexer<T extends Schema> {
 
   add(item: T) {
     for (const [field, fieldIndex] of this.indexes) {
-      const val = item[field];
-      if (!fieldIndex.has(val)) {
-        fieldIndex.set(val, new Set());
-      }
-      fieldIndex.get(val)!.add(item);
+      this.file(fieldIndex, field, item);
     }
   }
 
   remove(item: T) {
     for (const [field, fieldIndex] of this.indexes) {
-      const val = item[field];
-      const matches = fieldIndex.get(val);
-      if (matches) {
-        matches.delete(item);
+      for (const val of getPathValues(item, field)) {
+        fieldIndex.get(val)?.delete(item);
       }
     }
   }
@@ -55,7 +64,7 @@ export class Indexer<T extends Schema> {
     this.indexes.clear();
   }
 
-  hasIndex(field: keyof T): boolean {
+  hasIndex(field: string): boolean {
     return this.indexes.has(field);
   }
 }
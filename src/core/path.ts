@@ -0,0 +1,40 @@
+const parsed = new Map<string, string[]>();
+
+/** Splits a dot path into its segments: `"tags[*].name"` → `["tags", "*", "name"]`. */
+function segments(path: string): string[] {
+  let result = parsed.get(path);
+  if (!result) {
+    result = path
+      .replace(/\[\*\]/g, ".*")
+      .split(".")
+      .filter((segment) => segment !== "");
+    parsed.set(path, result);
+  }
+  return result;
+}
+
+/**
+ * Returns every value at `path`. Plain paths have exactly one value
+ * (`undefined` if a part is missing); each `[*]` expands to all elements of
+ * the array at that point, so `"tags[*].name"` yields one value per tag.
+ */
+export function getPathValues(item: unknown, path: string): unknown[] {
+  let values: unknown[] = [item];
+  for (const segment of segments(path)) {
+    if (segment === "*") {
+      values = values.flatMap((value) => (Array.isArray(value) ? value : []));
+    } else {
+      values = values.map((value) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[segment]
+          : undefined
+      );
+    }
+  }
+  return values;
+}
+
+/** Returns the value at `path`, or the first one if it contains `[*]`. */
+export function getPath(item: unknown, path: string): unknown {
+  return getPathValues(item, path)[0];
+}
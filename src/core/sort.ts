@@ -0,0 +1,106 @@
+import { SortOptions } from "./types.js";
+import { getPath } from "./path.js";
+
+/**
+ * Builds a comparator for the given sort keys. The first key decides and
+ * each later key only breaks ties, so `Array.sort` (which is stable) keeps
+ * the stored order of items that are equal on every key.
+ */
+export function compareBy<T>(sort: SortOptions<T>[]): (a: T, b: T) => number {
+  const compare = compareSortValues(sort);
+  return (a, b) => compare(sortValues(a, sort), sortValues(b, sort));
+}
+
+/** Returns the values of `item` for each sort key. */
+export function sortValues<T>(item: T, sort: SortOptions<T>[]): unknown[] {
+  return sort.map((key) => getPath(item, key.field));
+}
+
+/** Compares two lists of sort key values, as returned by `sortValues`. */
+export function compareSortValues<T>(
+  sort: SortOptions<T>[]
+): (a: unknown[], b: unknown[]) => number {
+  const keys = sort.map((key) => ({
+    direction: key.order === "desc" ? -1 : 1,
+    nulls: key.nulls === "first" ? -1 : 1,
+    collate: new Intl.Collator(key.locale, key.collation ?? { numeric: true })
+      .compare,
+  }));
+
+  return (a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      const aMissing = a[i] === null || a[i] === undefined;
+      const bMissing = b[i] === null || b[i] === undefined;
+      if (aMissing || bMissing) {
+        if (aMissing !== bMissing) {
+          return aMissing ? key.nulls : -key.nulls;
+        }
+        continue;
+      }
+      const result = compareValues(a[i], b[i], key.collate);
+      if (result !== 0) {
+        return result * key.direction;
+      }
+    }
+    return 0;
+  };
+}
+
+// Values of different kinds sort booleans, then numbers, strings and Dates
+const RANKS = ["boolean", "number", "string", "date"];
+
+function compareValues(
+  a: unknown,
+  b: unknown,
+  collate: (a: string, b: string) => number
+): number {
+  if (a instanceof Date || b instanceof Date) {
+    const aTime = toTime(a);
+    const bTime = toTime(b);
+    if (!Number.isNaN(aTime) && !Number.isNaN(bTime)) {
+      return aTime - bTime;
+    }
+  }
+  if (typeof a === "number" && typeof b === "string" && isNumeric(b)) {
+    return a - Number(b);
+  }
+  if (typeof a === "string" && typeof b === "number" && isNumeric(a)) {
+    return Number(a) - b;
+  }
+
+  const aRank = rank(a);
+  const bRank = rank(b);
+  if (aRank !== bRank) {
+    return aRank - bRank;
+  }
+  switch (RANKS[aRank]) {
+    case "boolean":
+      return Number(a) - Number(b);
+    case "number":
+      return (a as number) - (b as number);
+    case "string":
+      return collate(a as string, b as string);
+    case "date":
+      return (a as Date).getTime() - (b as Date).getTime();
+    default:
+      // Objects and arrays have no order
+      return 0;
+  }
+}
+
+function rank(value: unknown): number {
+  const kind = value instanceof Date ? "date" : typeof value;
+  const index = RANKS.indexOf(kind);
+  return index === -1 ? RANKS.length : index;
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") return Date.parse(value);
+  return NaN;
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== "" && !Number.isNaN(Number(value));
+}
@@ -5,14 +5,97 @@ export interface RetryConfig {
 }
 
 export interface GitHubDBConfig {
+  provider?: "github";
   accessToken: string;
   owner: string;
   repo: string;
   branch?: string;
   cacheTTL?: number;
   retry?: RetryConfig | false; // false to disable
+  /**
+   * How transactions are committed. `"graphql"` uses the `createCommitOnBranch`
+   * mutation: fewer API calls, an atomic check of the branch head, and
+   * "Verified" commits when authenticated as a GitHub App. Default: `"rest"`.
+   */
+  commitMode?: "rest" | "graphql";
+  /**
+   * Records every write instead of sending it. Reads see the recorded writes;
+   * `GitHubDB.dryRunReport()` returns them.
+   */
+  dryRun?: boolean;
+  /**
+   * Loads the whole repository from one tarball download on first read and
+   * serves every read from it. The database is then read-only. `ref` defaults
+   * to `branch`.
+   */
+  snapshot?: boolean | { ref?: string };
 }
 
+/**
+ * Stores the database as JSON files in a local directory instead of GitHub.
+ */
+export interface FileSystemDBConfig {
+  provider: "filesystem";
+  rootDir: string;
+}
+
+/**
+ * Keeps the database in memory with simulated Git semantics. Nothing is persisted.
+ */
+export interface MemoryDBConfig {
+  provider: "memory";
+  branch?: string;
+  author?: CommitAuthor;
+  initialData?: Record<string, unknown>;
+}
+
+/**
+ * Stores the database in a local Git repository (bare, working copy or `file://` URL).
+ */
+export interface GitRepositoryDBConfig {
+  provider: "git";
+  path: string;
+  branch?: string;
+  author?: CommitAuthor;
+}
+
+/**
+ * Stores the database in a GitLab project through the REST API (v4).
+ */
+export interface GitLabDBConfig {
+  provider: "gitlab";
+  accessToken: string;
+  projectId: string | number; // Numeric ID or "group/project" path
+  baseUrl?: string; // Default: https://gitlab.com
+  branch?: string;
+  cacheTTL?: number;
+  retry?: RetryConfig | false; // false to disable
+  fetch?: typeof fetch;
+}
+
+/**
+ * Stores the database in a Gitea (or Forgejo) repository through the REST API (v1).
+ */
+export interface GiteaDBConfig {
+  provider: "gitea";
+  accessToken: string;
+  baseUrl: string;
+  owner: string;
+  repo: string;
+  branch?: string;
+  cacheTTL?: number;
+  retry?: RetryConfig | false; // false to disable
+  fetch?: typeof fetch;
+}
+
+export type DBConfig =
+  | GitHubDBConfig
+  | FileSystemDBConfig
+  | MemoryDBConfig
+  | GitRepositoryDBConfig
+  | GitLabDBConfig
+  | GiteaDBConfig;
+
 export type Schema = Record<string, any>;
 
 export type MiddlewareOperation = "create" | "update" | "read" | "delete";
@@ -27,6 +110,12 @@ export interface Middleware<T extends Schema> {
   afterRead?: (item: T, context: MiddlewareContext) => Promise<T> | T;
 }
 
+/**
+ * Comparisons (`eq`, `gt`, `between`, ...) treat a `Date` value as its time and
+ * parse stored ISO strings to compare with it. `gt`, `gte`, `lt`, `lte` and
+ * `between` never match `null` or `undefined`; the string operators only
+ * match strings and `size`/`elemMatch` only arrays.
+ */
 export type FilterOperator =
   | "eq"
   | "neq"
@@ -35,53 +124,167 @@ export type FilterOperator =
   | "lt"
   | "lte"
   | "contains"
-  | "in";
+  | "in"
+  /** Case-insensitive `contains`. */
+  | "icontains"
+  | "startsWith"
+  | "endsWith"
+  /** Tests a `RegExp` or pattern string against string values. */
+  | "regex"
+  /** `true`: the field is not `undefined` (`null` exists); `false`: it is. */
+  | "exists"
+  /** Inclusive range, `value: [min, max]`. */
+  | "between"
+  /** Not in the `value` list; also matches missing fields. */
+  | "nin"
+  /** Arrays with exactly `value` elements. */
+  | "size"
+  /** Arrays with an element matching the `value` filter expression. */
+  | "elemMatch";
+
+type PathLeaf = string | number | boolean | bigint | symbol | Date | null | undefined;
+// Nesting depth left for `Path`, so recursive types stay finite
+type PathDepth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * Every field of `T` as a dot path, e.g. `"address.city"`. Array elements are
+ * addressed with `[*]`: `"tags[*].name"` stands for the `name` of any tag.
+ * Nesting is followed five levels deep.
+ */
+export type Path<T, Depth extends number = 5> = [Depth] extends [never]
+  ? never
+  : T extends PathLeaf | readonly unknown[]
+    ? never
+    : {
+        [K in keyof T & string]:
+          | K
+          | SubPath<K, NonNullable<T[K]>, PathDepth[Depth]>;
+      }[keyof T & string];
+
+type SubPath<K extends string, V, Depth extends number> = V extends PathLeaf
+  ? never
+  : V extends readonly (infer E)[]
+    ? `${K}[*]` | `${K}[*].${Path<E, Depth>}`
+    : `${K}.${Path<V, Depth>}`;
 
 export interface FilterPredicate<T> {
-  field: keyof T;
+  field: Path<T>;
   operator: FilterOperator;
   value: any;
 }
 
+/**
+ * A predicate, or a group of expressions combined with `and`, `or` or `not`.
+ * Groups nest, e.g. `{ and: [a, { or: [b, { not: c }] }] }`.
+ */
+export type FilterExpression<T> =
+  | FilterPredicate<T>
+  | { and: FilterExpression<T>[] }
+  | { or: FilterExpression<T>[] }
+  | { not: FilterExpression<T> };
+
 export type SortOrder = "asc" | "desc";
 
+/**
+ * One sort key. Keys apply in order: later keys only break ties of earlier
+ * ones. Strings are compared with `Intl.Collator`, Dates (and ISO strings
+ * compared with them) by time, and a number with a numeric string by value.
+ */
 export interface SortOptions<T> {
-  field: keyof T;
+  field: Path<T>;
   order: SortOrder;
+  /** Where `null` and `undefined` go, whatever the `order`. Default: "last". */
+  nulls?: "first" | "last";
+  /** Locale for comparing strings, e.g. "sv". Default: the runtime's locale. */
+  locale?: string;
+  /**
+   * `Intl.Collator` options for comparing strings. Default: `{ numeric: true }`,
+   * so "item9" sorts before "item10".
+   */
+  collation?: Intl.CollatorOptions;
 }
 
 export interface PaginationOptions {
   limit?: number;
   offset?: number;
+  /**
+   * Switches `find` to keyset pagination: pass `null` for the first page and
+   * the returned `nextCursor` for the next. Cannot be combined with `offset`.
+   */
+  cursor?: string | null;
 }
 
-export interface QueryOptions<T> {
-  filters?: FilterPredicate<T>[];
+/** A page of results from `find` with `pagination.cursor`. */
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the next page, or null if this is the last one. */
+  nextCursor: string | null;
+}
+
+export interface ReadOptions {
+  /**
+   * Read the data as it was at a past point: a commit SHA, a branch or tag
+   * name, or a Date (the latest commit at or before that moment).
+   */
+  asOf?: string | Date;
+  /**
+   * Names of relations to resolve. Each relation's collection is loaded once
+   * per call, no matter how many documents reference it.
+   */
+  populate?: string[];
+}
+
+export interface QueryOptions<T> extends ReadOptions {
+  filters?: FilterExpression<T>[]; // All must match
   sort?: SortOptions<T>[];
   pagination?: PaginationOptions;
 }
 
 export class ConcurrencyError extends Error {
-  constructor(public readonly path: string) {
+  constructor(
+    public readonly path: string,
+    // Every conflicting path, when a commit was rejected for more than one
+    public readonly paths: string[] = [path]
+  ) {
     super(`Concurrency conflict at ${path}. The remote data has changed.`);
     this.name = "ConcurrencyError";
   }
 }
 
 export class RateLimitError extends Error {
-  constructor(public readonly retryAfter?: number) {
+  constructor(
+    public readonly retryAfter?: number,
+    // Name of the forge whose API refused the request, e.g. "GitLab"
+    public readonly provider?: string
+  ) {
     super(
-      `GitHub API rate limit exceeded${retryAfter ? `. Retry after ${retryAfter}s` : ""}`
+      `${provider ? `${provider} ` : ""}API rate limit exceeded${retryAfter ? `. Retry after ${retryAfter}s` : ""}`
     );
     this.name = "RateLimitError";
   }
 }
 
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly response?: { headers: Record<string, string>; data?: unknown }
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
 export interface StorageResponse<T> {
   data: T;
   sha: string;
 }
 
+/** A JSON file read as part of a directory. */
+export interface DirectoryFile<T> extends StorageResponse<T> {
+  path: string;
+}
+
 export interface Validator<T> {
   validate: (data: unknown) => Promise<T> | T;
 }
@@ -91,12 +294,160 @@ export interface CommitChange {
   content: any;
 }
 
-export type StorageStrategy = "single-file" | "sharded";
+export interface CommitOptions {
+  /**
+   * Blob SHA each path must still have at the branch head for the commit to
+   * apply, or null if the path must not exist. Otherwise the commit is
+   * rejected with a ConcurrencyError listing the changed paths.
+   */
+  expectedShas?: Record<string, string | null>;
+}
+
+export type StorageStrategy = "single-file" | "sharded" | "bucketed";
+
+export interface StrategyConversion {
+  from: StorageStrategy;
+  to: StorageStrategy;
+  /** Number of documents moved to the new layout. */
+  documents: number;
+  /** Files created by the conversion. */
+  written: string[];
+  /** Files removed by the conversion. */
+  deleted: string[];
+  /** The conversion commit, or null for a dry run or when nothing changed. */
+  commit: string | null;
+}
+
+export type RelationType = "one-to-one" | "one-to-many";
+
+/**
+ * Describes how documents of one collection reference another.
+ * Set exactly one of `localField` or `foreignField`.
+ */
+export interface RelationDefinition {
+  type: RelationType;
+  collection: string;
+  /** Field on this document holding the referenced id, or an array of ids for one-to-many. */
+  localField?: string;
+  /** Field on the referenced documents holding this document's id. */
+  foreignField?: string;
+  /**
+   * Layout of the referenced collection when no collection with that name is
+   * registered on the database or transaction. Default: single-file.
+   */
+  strategy?: StorageStrategy;
+  /** Bucket count of a `bucketed` referenced collection. Default: 256. */
+  buckets?: number;
+}
+
+/**
+ * Retries an operation that failed with `ConcurrencyError` against the latest
+ * remote state, instead of surfacing the conflict right away.
+ */
+export interface ConflictRetryOptions {
+  maxAttempts: number; // Total attempts, including the first one
+}
+
+/**
+ * The three versions of a document involved in a write conflict.
+ */
+export interface Conflict<T> {
+  id: string;
+  collection: string;
+  base: T | null; // As this client last read it (null if it did not exist)
+  local: T | null; // What this client tried to write (null for a delete)
+  remote: T | null; // The current version in storage (null if deleted)
+}
+
+/**
+ * Merges a conflicting write. Returns the document to store, null to remove
+ * it, or throws to abort the operation.
+ */
+export type ConflictResolver<T> = (
+  conflict: Conflict<T>
+) => T | null | Promise<T | null>;
+
+export interface CollectionOptions<T extends Schema> {
+  middleware?: Middleware<T>[];
+  validator?: Validator<T>;
+  strategy?: StorageStrategy;
+  /**
+   * Number of bucket files for the `bucketed` strategy. Changing it moves
+   * documents to other buckets, so convert the collection instead. Default: 256.
+   */
+  buckets?: number;
+  relations?: Record<string, RelationDefinition>;
+  retryOnConflict?: ConflictRetryOptions;
+  /**
+   * Called when a write conflicts with a change to the same document.
+   * Attempts are limited by `retryOnConflict` (default: 3).
+   */
+  conflictResolver?: ConflictResolver<T>;
+}
+
+export interface TransactionOptions {
+  /**
+   * Runs the transaction callback again on a fresh transaction when the
+   * commit conflicts. The callback must be safe to run more than once.
+   */
+  retryOnConflict?: ConflictRetryOptions;
+  /**
+   * Runs the callback against the real data but records the commit instead
+   * of sending it. `GitHubDB.transaction` then resolves to a `DryRunReport`.
+   */
+  dryRun?: boolean;
+}
+
+export interface DryRunChange {
+  path: string;
+  /** Content before the write, or null if the file did not exist. */
+  before: unknown;
+  /** Content after the write, or null if the file was deleted. */
+  after: unknown;
+}
+
+export interface DryRunCommit {
+  message: string;
+  changes: DryRunChange[];
+}
+
+export interface DryRunReport {
+  commits: DryRunCommit[];
+}
 
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface CommitInfo {
+  sha: string;
+  author: CommitAuthor;
+  timestamp: string; // ISO 8601
+  message: string;
+}
+
+/**
+ * For each top-level field of a document, the commit that last changed its value.
+ */
+export type FieldBlame<T> = { [K in keyof T]?: CommitInfo };
+
+/**
+ * A file (or document) as it was at a given commit.
+ * `data` is null when the file did not exist at that commit (e.g. it was deleted).
+ */
+export interface Revision<T> extends CommitInfo {
+  data: T | null;
+}
+
+/**
+ * Read methods accept an optional `ref` (a commit SHA, as returned by
+ * `resolveRef`) to read from a past commit instead of the branch head.
+ */
 export interface IStorageProvider {
   testConnection(): Promise<boolean>;
-  exists(path: string): Promise<boolean>;
-  readJson<T>(path: string): Promise<StorageResponse<T>>;
+  exists(path: string, ref?: string): Promise<boolean>;
+  readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>>;
   writeJson<T>(
     path: string,
     content: T,
@@ -105,7 +456,34 @@ export interface IStorageProvider {
   ): Promise<string>;
   deleteFile(path: string, message: string, sha: string): Promise<void>;
   listDirectory(
-    path: string
+    path: string,
+    ref?: string
   ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]>;
-  commit(changes: CommitChange[], message: string): Promise<string>;
+  /**
+   * Reads every `.json` file directly inside `path` in bulk. Optional:
+   * without it, collections list the directory and read each file.
+   */
+  readDirectory?<T>(path: string, ref?: string): Promise<DirectoryFile<T>[]>;
+  /**
+   * Lists every `.json` file directly inside `path`, however many there are.
+   * Optional: without it, collections use `listDirectory`.
+   */
+  listJsonFiles?(
+    path: string,
+    ref?: string
+  ): Promise<{ path: string; sha: string }[]>;
+  commit(
+    changes: CommitChange[],
+    message: string,
+    options?: CommitOptions
+  ): Promise<string>;
+  /**
+   * Returns the commits that touched `path`, newest first, each with the
+   * file content at that revision.
+   */
+  getHistory<T>(path: string): Promise<Revision<T>[]>;
+  /**
+   * Resolves a commit SHA, branch/tag name or Date to an immutable commit SHA.
+   */
+  resolveRef(ref: string | Date): Promise<string>;
 }
@@ -1,5 +1,27 @@
 export { GitHubDB } from "./ui/github-db.js";
 export { Collection } from "./ui/collection.js";
 export { Transaction } from "./ui/transaction.js";
+export { MIGRATIONS_COLLECTION, strategyMigration } from "./ui/migrations.js";
+export type {
+  Migration,
+  MigrationRecord,
+  MigrationResult,
+  MigrationStatus,
+} from "./ui/migrations.js";
+export { FileSystemStorageProvider } from "./infrastructure/fs-storage.js";
+export { InMemoryStorageProvider } from "./infrastructure/memory-storage.js";
+export type { InMemoryStorageOptions } from "./infrastructure/memory-storage.js";
+export { GitStorageProvider } from "./infrastructure/git-storage.js";
+export type { GitRepositoryOptions } from "./infrastructure/git-storage.js";
+export { GitLabStorageProvider } from "./infrastructure/gitlab-storage.js";
+export { GiteaStorageProvider } from "./infrastructure/gitea-storage.js";
+export { DryRunStorageProvider } from "./infrastructure/dry-run-storage.js";
+export { SnapshotStorageProvider } from "./infrastructure/snapshot-storage.js";
+export type { SnapshotStorageOptions } from "./infrastructure/snapshot-storage.js";
+export {
+  fieldLevelLastWriterWins,
+  localWins,
+  remoteWins,
+} from "./core/conflict.js";
 export * from "./core/types.js";
 export const version = "1.3.0";
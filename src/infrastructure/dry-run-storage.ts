@@ -0,0 +1,96 @@
+import {
+  CommitChange,
+  CommitOptions,
+  DryRunChange,
+  DryRunCommit,
+  DryRunReport,
+  IStorageProvider,
+} from "../core/types.js";
+import { sha1Hex } from "./sha1.js";
+import { TransactionStorageProvider } from "./transaction-storage.js";
+
+/**
+ * A decorator for IStorageProvider that records writes instead of sending
+ * them. Like a transaction that is never committed, later reads see the
+ * recorded writes, so multi-step operations behave as they would for real.
+ */
+export class DryRunStorageProvider extends TransactionStorageProvider {
+  private commits: DryRunCommit[] = [];
+
+  constructor(baseStorage: IStorageProvider) {
+    super(baseStorage);
+  }
+
+  async writeJson<T>(
+    path: string,
+    content: T,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    await this.record([{ path, content }], message);
+    return super.writeJson(path, content, message, sha);
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    await this.record([{ path, content: null }], message);
+    return super.deleteFile(path, message, sha);
+  }
+
+  async commit(
+    changes: CommitChange[],
+    message: string,
+    _options?: CommitOptions
+  ): Promise<string> {
+    if (changes.length === 0) {
+      throw new Error("No changes to commit");
+    }
+    const sha = await this.record(changes, message);
+    for (const change of changes) {
+      if (change.content === null) {
+        await super.deleteFile(change.path, message, "");
+      } else {
+        await super.writeJson(change.path, change.content, message);
+      }
+    }
+    return sha;
+  }
+
+  /**
+   * Returns a copy of every commit recorded so far, oldest first.
+   */
+  getReport(): DryRunReport {
+    return structuredClone({ commits: this.commits });
+  }
+
+  // Records a commit against the current (dry-run) state and returns a
+  // stand-in commit SHA
+  private async record(
+    changes: CommitChange[],
+    message: string
+  ): Promise<string> {
+    const recorded: DryRunChange[] = [];
+    for (const change of changes) {
+      recorded.push({
+        path: change.path,
+        before: await this.currentContent(change.path),
+        // Copied now, since callers may keep mutating what they wrote
+        after: structuredClone(change.content),
+      });
+    }
+    this.commits.push({ message, changes: recorded });
+    return sha1Hex(
+      new TextEncoder().encode(
+        JSON.stringify({ message, changes, commit: this.commits.length })
+      )
+    );
+  }
+
+  private async currentContent(path: string): Promise<unknown> {
+    try {
+      return structuredClone((await this.readJson(path)).data);
+    } catch (error: any) {
+      if (error.status === 404) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { CommitOptions, ConcurrencyError } from "../core/types.js";
+
+/**
+ * Throws a ConcurrencyError listing every path whose current blob SHA differs
+ * from the expected one. `currentSha` returns undefined for missing paths.
+ */
+export function assertExpectedShas(
+  expectedShas: CommitOptions["expectedShas"],
+  currentSha: (path: string) => string | undefined
+): void {
+  const changed = Object.entries(expectedShas ?? {})
+    .filter(([path, sha]) => (currentSha(path) ?? null) !== sha)
+    .map(([path]) => path);
+  if (changed.length > 0) {
+    throw new ConcurrencyError(changed.join(", "), changed);
+  }
+}
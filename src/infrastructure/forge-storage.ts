@@ -0,0 +1,404 @@
+import {
+  CommitChange,
+  CommitOptions,
+  ConcurrencyError,
+  IStorageProvider,
+  RateLimitError,
+  RetryConfig,
+  Revision,
+  StorageResponse,
+} from "../core/types.js";
+import { ICacheProvider, MemoryCacheProvider } from "./cache-provider.js";
+import { assertExpectedShas } from "./expected-shas.js";
+
+export interface ForgeStorageOptions {
+  cacheTTL?: number;
+  retry?: RetryConfig | false; // false to disable
+}
+
+/**
+ * A file as returned by a forge, with its raw (decoded) text content.
+ */
+export interface ForgeFile {
+  content: string;
+  sha: string;
+}
+
+export type DirectoryEntry = { path: string; sha: string; type: "file" | "dir" };
+
+export function decodeBase64(base64: string): string {
+  const binary = atob(base64.replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+export function encodeBase64(text: string): string {
+  return btoa(
+    Array.from(new TextEncoder().encode(text))
+      .map((b) => String.fromCharCode(b))
+      .join("")
+  );
+}
+
+// Revision contents fetched at once when reading a file's history
+export const HISTORY_CONCURRENCY = 8;
+
+// Blob downloads in flight at once when loading a directory
+export const BLOB_CONCURRENCY = 8;
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls pending at a time, so
+ * reading many files never fires hundreds of requests at once. Results keep
+ * the order of `items`.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Shared behavior for storage providers backed by a hosted Git forge's HTTP
+ * API: retries with exponential backoff, the fresh/stale cache pair used for
+ * conditional GETs, immutable snapshot reads and SHA-based optimistic locking.
+ *
+ * Subclasses only translate these operations to their forge's endpoints.
+ * Errors thrown by subclasses are expected to carry an HTTP `status` (and
+ * `response.headers` for `Retry-After`), like Octokit's request errors.
+ */
+export abstract class ForgeStorageProvider implements IStorageProvider {
+  protected cache: ICacheProvider;
+  protected staleCache = new Map<string, StorageResponse<any>>();
+  // Reads at a commit SHA never change, so they are cached separately and without TTL
+  protected snapshotCache = new Map<string, StorageResponse<any>>();
+  protected readonly DEFAULT_TTL = 0; // Default to 0 for consistency
+
+  constructor(
+    private readonly forgeOptions: ForgeStorageOptions,
+    cache?: ICacheProvider
+  ) {
+    this.cache = cache || new MemoryCacheProvider();
+  }
+
+  // Shown in errors, e.g. "GitHub"
+  protected abstract readonly forgeName: string;
+
+  abstract testConnection(): Promise<boolean>;
+  abstract listDirectory(path: string, ref?: string): Promise<DirectoryEntry[]>;
+  abstract getHistory<T>(path: string): Promise<Revision<T>[]>;
+  abstract resolveRef(ref: string | Date): Promise<string>;
+
+  /**
+   * Fetches a file at the branch head or at `ref`. When `etag` (the cached
+   * SHA) is given, returns null if the forge answered 304 Not Modified.
+   */
+  protected abstract fetchFile(
+    path: string,
+    options: { ref?: string; etag?: string }
+  ): Promise<ForgeFile | null>;
+
+  /** Returns the current blob SHA of a file, or undefined if it does not exist. */
+  protected abstract fetchSha(path: string): Promise<string | undefined>;
+
+  /** Creates or updates a file and returns its new blob SHA. */
+  protected abstract putFile(
+    path: string,
+    content: string,
+    message: string,
+    sha?: string
+  ): Promise<string>;
+
+  protected abstract removeFile(
+    path: string,
+    message: string,
+    sha: string
+  ): Promise<void>;
+
+  /**
+   * Writes all changes as one commit, unless a path in `expectedShas` no
+   * longer has the expected SHA. Returns the commit SHA and the new blob SHA
+   * of every written path.
+   */
+  protected abstract commitFiles(
+    changes: CommitChange[],
+    message: string,
+    expectedShas?: CommitOptions["expectedShas"]
+  ): Promise<{ commit: string; blobs: Map<string, string> }>;
+
+  /** Whether an error from a write means the file changed underneath us. */
+  protected isConflict(error: any): boolean {
+    return error?.status === 409;
+  }
+
+  /**
+   * Maps conflict responses to `ConcurrencyError`. The cached copies of the
+   * affected paths are known to be outdated, so the next read must revalidate.
+   */
+  private toConflict(error: any, conflictPath: string, paths: string[]): Error {
+    if (!(error instanceof ConcurrencyError) && !this.isConflict(error)) {
+      return error;
+    }
+    for (const path of [...paths, ...(error.paths ?? [])]) {
+      this.cache.delete(path);
+    }
+    return error instanceof ConcurrencyError
+      ? error
+      : new ConcurrencyError(conflictPath);
+  }
+
+  /**
+   * Looks up every changed path and every path in `expectedShas` once, checks
+   * the expected SHAs against those lookups and returns them; missing paths
+   * map to undefined. Sending the returned versions with the commit lets the
+   * forge reject files written since. Files that are only read are not part
+   * of the commit, so a change to them right after the check goes unnoticed.
+   */
+  protected async verifyExpectedShas<M>(
+    changes: CommitChange[],
+    expectedShas: CommitOptions["expectedShas"],
+    lookup: (path: string) => Promise<M | undefined>,
+    shaOf: (metadata: M) => string
+  ): Promise<Map<string, M | undefined>> {
+    const paths = new Set([
+      ...changes.map((change) => change.path),
+      ...Object.keys(expectedShas ?? {}),
+    ]);
+    const current = new Map(
+      await Promise.all(
+        Array.from(paths, async (path) => [path, await lookup(path)] as const)
+      )
+    );
+    assertExpectedShas(expectedShas, (path) => {
+      const metadata = current.get(path);
+      return metadata === undefined ? undefined : shaOf(metadata);
+    });
+    return current;
+  }
+
+  protected serialize(content: unknown): string {
+    return JSON.stringify(content, null, 2);
+  }
+
+  protected get ttl(): number {
+    return this.forgeOptions.cacheTTL ?? this.DEFAULT_TTL;
+  }
+
+  protected async retryWithBackoff<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.forgeOptions.retry === false) return fn();
+
+    const {
+      maxRetries = 3,
+      baseDelay = 1000,
+      maxDelay = 10000,
+    } = this.forgeOptions.retry ?? {};
+
+    let lastError: Error & { status?: number; response?: any };
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await fn();
+      } catch (error: any) {
+        lastError = error;
+        const status = error?.status;
+
+        // Non-retryable: 409 (concurrency), 4xx client errors (except 429)
+        if (status === 409) throw error;
+        if (status && status < 500 && status !== 429) throw error;
+        // Errors without a status code (non-HTTP errors) — rethrow
+        if (!status) throw error;
+
+        // Last attempt — don't wait, just break
+        if (attempt === maxRetries) break;
+
+        // Calculate delay
+        let delay: number;
+        if (status === 429 && error.response?.headers?.["retry-after"]) {
+          delay =
+            parseInt(error.response.headers["retry-after"], 10) * 1000;
+        } else {
+          delay = baseDelay * Math.pow(2, attempt);
+          // Add jitter to avoid thundering herd on simultaneous retries
+          delay = delay * (0.5 + Math.random() * 0.5);
+        }
+
+        // Cap all delays (including Retry-After) against maxDelay
+        delay = Math.min(delay, maxDelay);
+
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    // Exhausted retries on 429 → RateLimitError
+    if (lastError!.status === 429) {
+      const retryAfter = lastError!.response?.headers?.["retry-after"];
+      throw new RateLimitError(
+        retryAfter ? parseInt(retryAfter, 10) : undefined,
+        this.forgeName
+      );
+    }
+
+    throw lastError!;
+  }
+
+  async exists(path: string, ref?: string): Promise<boolean> {
+    if (ref) {
+      if (this.snapshotCache.has(`${ref}:${path}`)) {
+        return true;
+      }
+    } else if (this.cache.get(path) || this.staleCache.has(path)) {
+      return true;
+    }
+
+    return this.pathExists(path, ref);
+  }
+
+  /**
+   * Checks whether a file or directory exists, bypassing the caches.
+   */
+  protected abstract pathExists(path: string, ref?: string): Promise<boolean>;
+
+  async readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>> {
+    if (ref) {
+      return this.readJsonAt<T>(path, ref);
+    }
+
+    // 1. Check fresh cache (blind trust)
+    const fresh = this.cache.get<T>(path);
+    if (fresh) {
+      return fresh;
+    }
+
+    // 2. Check stale cache for conditional request
+    const stale = this.staleCache.get(path) as StorageResponse<T> | undefined;
+
+    const file = await this.fetchFile(path, { etag: stale?.sha });
+    if (!file) {
+      // Not modified: re-cache as fresh and return stale data
+      this.cache.set(path, stale!, this.ttl);
+      return stale!;
+    }
+
+    const result = {
+      data: JSON.parse(file.content) as T,
+      sha: file.sha,
+    };
+
+    // Update both caches
+    this.cache.set(path, result, this.ttl);
+    this.staleCache.set(path, result);
+
+    return result;
+  }
+
+  private async readJsonAt<T>(
+    path: string,
+    ref: string
+  ): Promise<StorageResponse<T>> {
+    const key = `${ref}:${path}`;
+    const cached = this.snapshotCache.get(key) as StorageResponse<T> | undefined;
+    if (cached) {
+      return cached;
+    }
+
+    const file = (await this.fetchFile(path, { ref }))!;
+    const result = { data: JSON.parse(file.content) as T, sha: file.sha };
+    this.snapshotCache.set(key, result);
+    return result;
+  }
+
+  async writeJson<T>(
+    path: string,
+    content: T,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    let internalSha = sha;
+
+    if (!internalSha) {
+      const cached = this.cache.get<any>(path) || this.staleCache.get(path);
+      internalSha = cached ? cached.sha : await this.fetchSha(path);
+    }
+
+    // Note: internalSha is resolved before the retry wrapper. If a write fails
+    // with a 5xx after the forge has already committed the file (e.g. network
+    // timeout), the retry will reuse the stale sha and may fail with a 409.
+    try {
+      const newSha = await this.putFile(
+        path,
+        this.serialize(content),
+        message,
+        internalSha
+      );
+      const result = { data: content, sha: newSha };
+
+      this.cache.set(path, result, this.ttl);
+      this.staleCache.set(path, result);
+
+      return newSha;
+    } catch (error: any) {
+      throw this.toConflict(error, path, [path]);
+    }
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    try {
+      await this.removeFile(path, message, sha);
+    } catch (error: any) {
+      throw this.toConflict(error, path, [path]);
+    }
+    this.cache.delete(path);
+    this.staleCache.delete(path);
+  }
+
+  async commit(
+    changes: CommitChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    if (changes.length === 0) {
+      throw new Error("No changes to commit");
+    }
+
+    let result: { commit: string; blobs: Map<string, string> };
+    try {
+      result = await this.commitFiles(changes, message, options.expectedShas);
+    } catch (error: any) {
+      throw this.toConflict(
+        error,
+        "batch-commit",
+        changes.map((change) => change.path)
+      );
+    }
+
+    // Update cache for all involved files
+    for (const change of changes) {
+      const blobSha = result.blobs.get(change.path);
+      if (change.content === null) {
+        this.cache.delete(change.path);
+        this.staleCache.delete(change.path);
+      } else if (blobSha) {
+        const entry = { data: change.content, sha: blobSha };
+        this.cache.set(change.path, entry, this.ttl);
+        this.staleCache.set(change.path, entry);
+      }
+    }
+
+    return result.commit;
+  }
+}
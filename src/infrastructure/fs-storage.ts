@@ -0,0 +1,249 @@
+import {
+  CommitChange,
+  CommitOptions,
+  ConcurrencyError,
+  IStorageProvider,
+  Revision,
+  StorageResponse,
+} from "../core/types.js";
+import { assertExpectedShas } from "./expected-shas.js";
+import { gitBlobSha, sha1Hex } from "./sha1.js";
+
+type FsPromises = typeof import("node:fs/promises");
+
+/**
+ * Stores JSON files under a local directory. Intended for development,
+ * offline work and integration tests that should not need a GitHub token.
+ *
+ * SHAs are Git blob hashes of the file content, so optimistic concurrency
+ * behaves like it does against GitHub. There is no commit history.
+ */
+export class FileSystemStorageProvider implements IStorageProvider {
+  private fsModule?: Promise<FsPromises>;
+
+  constructor(private readonly rootDir: string) {}
+
+  /**
+   * `node:fs` is imported on first use so that importing the library stays
+   * possible on edge runtimes that never select this provider.
+   */
+  private fs(): Promise<FsPromises> {
+    this.fsModule ??= import("node:fs/promises");
+    return this.fsModule;
+  }
+
+  /**
+   * Maps a storage path to a file under the root directory. Collection names
+   * and ids end up in paths, so `..` must never climb out of the root.
+   */
+  private resolve(path: string): string {
+    const segments: string[] = [];
+    for (const segment of path.split(/[\\/]+/)) {
+      if (segment === "" || segment === ".") continue;
+      if (segment === "..") {
+        if (segments.length === 0) {
+          throw new Error(`Path "${path}" is outside of ${this.rootDir}`);
+        }
+        segments.pop();
+      } else {
+        segments.push(segment);
+      }
+    }
+    return `${this.rootDir.replace(/\/+$/, "")}/${segments.join("/")}`;
+  }
+
+  private hash(content: string): string {
+    return gitBlobSha(content);
+  }
+
+  private serialize(content: unknown): string {
+    return JSON.stringify(content, null, 2);
+  }
+
+  private notFound(path: string): Error & { status: number } {
+    return Object.assign(new Error(`Not Found: ${path}`), { status: 404 });
+  }
+
+  private noHistory(): Error {
+    return new Error(
+      "FileSystemStorageProvider does not keep history; history and point-in-time reads are not supported"
+    );
+  }
+
+  private async currentSha(path: string): Promise<string | undefined> {
+    const { readFile } = await this.fs();
+    try {
+      return this.hash(await readFile(this.resolve(path), "utf-8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  private async writeTemp(path: string, content: string): Promise<string> {
+    const { mkdir, writeFile } = await this.fs();
+    const target = this.resolve(path);
+    await mkdir(target.slice(0, target.lastIndexOf("/")), { recursive: true });
+    const suffix = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const temp = `${target}.${suffix}.tmp`;
+    await writeFile(temp, content, "utf-8");
+    return temp;
+  }
+
+  async testConnection(): Promise<boolean> {
+    const { stat } = await this.fs();
+    try {
+      return (await stat(this.rootDir)).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async exists(path: string, ref?: string): Promise<boolean> {
+    if (ref) throw this.noHistory();
+    const { stat } = await this.fs();
+    try {
+      await stat(this.resolve(path));
+      return true;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  async readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>> {
+    if (ref) throw this.noHistory();
+    const { readFile } = await this.fs();
+    let content: string;
+    try {
+      content = await readFile(this.resolve(path), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") throw this.notFound(path);
+      throw error;
+    }
+    return { data: JSON.parse(content) as T, sha: this.hash(content) };
+  }
+
+  async writeJson<T>(
+    path: string,
+    content: T,
+    _message: string,
+    sha?: string
+  ): Promise<string> {
+    // Like the GitHub provider, a missing SHA means "overwrite whatever is there"
+    if (sha !== undefined && (await this.currentSha(path)) !== sha) {
+      throw new ConcurrencyError(path);
+    }
+
+    const { rename } = await this.fs();
+    const serialized = this.serialize(content);
+    const temp = await this.writeTemp(path, serialized);
+    await rename(temp, this.resolve(path));
+    return this.hash(serialized);
+  }
+
+  async deleteFile(path: string, _message: string, sha: string): Promise<void> {
+    const current = await this.currentSha(path);
+    if (current === undefined) {
+      throw this.notFound(path);
+    }
+    if (current !== sha) {
+      throw new ConcurrencyError(path);
+    }
+    const { rm } = await this.fs();
+    await rm(this.resolve(path));
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string
+  ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]> {
+    if (ref) throw this.noHistory();
+    const { readdir } = await this.fs();
+    const dir = path.replace(/\/+$/, "");
+    let entries;
+    try {
+      entries = await readdir(this.resolve(dir), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    return Promise.all(
+      entries
+        // Skip leftovers of interrupted writes
+        .filter((entry) => !entry.name.endsWith(".tmp"))
+        .map(async (entry) => {
+          const entryPath = dir ? `${dir}/${entry.name}` : entry.name;
+          if (entry.isDirectory()) {
+            return { path: entryPath, sha: "", type: "dir" as const };
+          }
+          return {
+            path: entryPath,
+            sha: (await this.currentSha(entryPath)) ?? "",
+            type: "file" as const,
+          };
+        })
+    );
+  }
+
+  /**
+   * Applies all changes or none of them: every new file is written to a
+   * temporary file first, and only renamed into place once all writes succeeded.
+   */
+  async commit(
+    changes: CommitChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    if (changes.length === 0) {
+      throw new Error("No changes to commit");
+    }
+
+    const current = new Map<string, string | undefined>();
+    for (const path of Object.keys(options.expectedShas ?? {})) {
+      current.set(path, await this.currentSha(path));
+    }
+    assertExpectedShas(options.expectedShas, (path) => current.get(path));
+
+    const { rename, rm } = await this.fs();
+    const temps: { temp: string; target: string }[] = [];
+    try {
+      for (const change of changes) {
+        if (change.content !== null) {
+          const temp = await this.writeTemp(
+            change.path,
+            this.serialize(change.content)
+          );
+          temps.push({ temp, target: this.resolve(change.path) });
+        }
+      }
+    } catch (error) {
+      await Promise.all(temps.map(({ temp }) => rm(temp, { force: true })));
+      throw error;
+    }
+
+    for (const { temp, target } of temps) {
+      await rename(temp, target);
+    }
+    for (const change of changes) {
+      if (change.content === null) {
+        await rm(this.resolve(change.path), { force: true });
+      }
+    }
+
+    return sha1Hex(
+      new TextEncoder().encode(
+        JSON.stringify({ message, changes, time: Date.now() })
+      )
+    );
+  }
+
+  async getHistory<T>(_path: string): Promise<Revision<T>[]> {
+    throw this.noHistory();
+  }
+
+  async resolveRef(_ref: string | Date): Promise<string> {
+    throw this.noHistory();
+  }
+}
@@ -0,0 +1,783 @@
+import {
+  CommitAuthor,
+  CommitChange,
+  CommitOptions,
+  ConcurrencyError,
+  IStorageProvider,
+  Revision,
+  StorageResponse,
+} from "../core/types.js";
+import { assertExpectedShas } from "./expected-shas.js";
+import { sha1Hex } from "./sha1.js";
+
+type FsPromises = typeof import("node:fs/promises");
+type Zlib = typeof import("node:zlib");
+
+export interface GitRepositoryOptions {
+  /** Path to a bare repository, a working copy (its `.git` is used) or a `file://` URL. */
+  path: string;
+  branch?: string;
+  author?: CommitAuthor;
+}
+
+type GitObjectType = "commit" | "tree" | "blob" | "tag";
+
+interface TreeEntry {
+  mode: string;
+  name: string;
+  sha: string;
+}
+
+interface ParsedCommit {
+  sha: string;
+  tree: string;
+  parents: string[];
+  author: CommitAuthor;
+  timestamp: string;
+  message: string;
+}
+
+interface PackIndex {
+  packPath: string;
+  fanout: Uint32Array;
+  shas: Uint8Array;
+  offsets: (number | bigint)[];
+  pack?: Uint8Array;
+}
+
+interface PendingChange {
+  segments: string[];
+  blobSha: string | null;
+}
+
+const PACK_TYPES: Record<number, GitObjectType> = {
+  1: "commit",
+  2: "tree",
+  3: "blob",
+  4: "tag",
+};
+
+const TREE_MODE = "40000";
+const FILE_MODE = "100644";
+
+/**
+ * Reads and writes a local Git repository directly: blobs, trees and commits
+ * are written as loose objects and the branch ref is moved with a
+ * compare-and-swap, the same way `GitHubStorageProvider.commit()` uses the Git
+ * Data API. The result can be pushed to any remote with plain `git push`.
+ *
+ * Reads understand both loose objects and packfiles. Only the ref is updated;
+ * in a non-bare repository the working tree and index are left untouched.
+ */
+export class GitStorageProvider implements IStorageProvider {
+  private readonly gitDirPath: string;
+  private readonly branch: string;
+  private readonly author: CommitAuthor;
+  private modules?: Promise<{ fs: FsPromises; zlib: Zlib }>;
+  private gitDir?: Promise<string>;
+  private packs?: PackIndex[];
+  private trees = new Map<string, TreeEntry[]>(); // tree objects are immutable
+
+  constructor(options: GitRepositoryOptions) {
+    this.gitDirPath = options.path
+      .replace(/^file:\/\//, "")
+      .replace(/\/+$/, "");
+    this.branch = options.branch || "main";
+    this.author = options.author || {
+      name: "gh-as-db",
+      email: "gh-as-db@localhost",
+    };
+  }
+
+  /**
+   * Node modules are imported on first use so that importing the library
+   * stays possible on edge runtimes that never select this provider.
+   */
+  private load(): Promise<{ fs: FsPromises; zlib: Zlib }> {
+    this.modules ??= Promise.all([
+      import("node:fs/promises"),
+      import("node:zlib"),
+    ]).then(([fs, zlib]) => ({ fs, zlib }));
+    return this.modules;
+  }
+
+  private resolveGitDir(): Promise<string> {
+    this.gitDir ??= this.load().then(async ({ fs }) => {
+      const dotGit = `${this.gitDirPath}/.git`;
+      try {
+        if ((await fs.stat(dotGit)).isDirectory()) return dotGit;
+      } catch (error: any) {
+        if (error.code !== "ENOENT") throw error;
+      }
+      return this.gitDirPath;
+    });
+    return this.gitDir;
+  }
+
+  private notFound(path: string): Error & { status: number } {
+    return Object.assign(new Error(`Not Found: ${path}`), { status: 404 });
+  }
+
+  // --- Objects -------------------------------------------------------------
+
+  private hashObject(type: GitObjectType, body: Uint8Array): {
+    sha: string;
+    raw: Uint8Array;
+  } {
+    const header = new TextEncoder().encode(`${type} ${body.length}\0`);
+    const raw = new Uint8Array(header.length + body.length);
+    raw.set(header);
+    raw.set(body, header.length);
+    return { sha: sha1Hex(raw), raw };
+  }
+
+  private async writeObject(
+    type: GitObjectType,
+    body: Uint8Array
+  ): Promise<string> {
+    const { fs, zlib } = await this.load();
+    const gitDir = await this.resolveGitDir();
+    const { sha, raw } = this.hashObject(type, body);
+    const dir = `${gitDir}/objects/${sha.slice(0, 2)}`;
+    const file = `${dir}/${sha.slice(2)}`;
+
+    try {
+      await fs.stat(file);
+      return sha; // Objects are content-addressed, so it is already there
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+
+    await fs.mkdir(dir, { recursive: true });
+    const temp = `${file}.${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+    await fs.writeFile(temp, zlib.deflateSync(raw));
+    await fs.rename(temp, file);
+    return sha;
+  }
+
+  private async readObject(
+    sha: string
+  ): Promise<{ type: GitObjectType; body: Uint8Array }> {
+    const { fs, zlib } = await this.load();
+    const gitDir = await this.resolveGitDir();
+
+    try {
+      const compressed = await fs.readFile(
+        `${gitDir}/objects/${sha.slice(0, 2)}/${sha.slice(2)}`
+      );
+      const raw = zlib.inflateSync(compressed);
+      const nul = raw.indexOf(0);
+      const [type] = raw.subarray(0, nul).toString("utf-8").split(" ");
+      return { type: type as GitObjectType, body: raw.subarray(nul + 1) };
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+
+    const packed = await this.readPackedObject(sha);
+    if (!packed) {
+      throw this.notFound(sha);
+    }
+    return packed;
+  }
+
+  // --- Packfiles -----------------------------------------------------------
+
+  private async loadPacks(): Promise<PackIndex[]> {
+    const { fs } = await this.load();
+    const packDir = `${await this.resolveGitDir()}/objects/pack`;
+    let files: string[];
+    try {
+      files = await fs.readdir(packDir);
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw error;
+    }
+
+    const packs: PackIndex[] = [];
+    for (const file of files.filter((f) => f.endsWith(".idx"))) {
+      const idx = await fs.readFile(`${packDir}/${file}`);
+      const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength);
+      if (view.getUint32(0) !== 0xff744f63 || view.getUint32(4) !== 2) {
+        continue; // Only version 2 indexes are supported
+      }
+      const fanout = new Uint32Array(256);
+      for (let i = 0; i < 256; i++) fanout[i] = view.getUint32(8 + i * 4);
+      const count = fanout[255];
+      const shaStart = 8 + 256 * 4;
+      const offsetStart = shaStart + count * 20 + count * 4;
+      const largeStart = offsetStart + count * 4;
+      const offsets: (number | bigint)[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = view.getUint32(offsetStart + i * 4);
+        offsets.push(
+          value & 0x80000000
+            ? view.getBigUint64(largeStart + (value & 0x7fffffff) * 8)
+            : value
+        );
+      }
+      packs.push({
+        packPath: `${packDir}/${file.replace(/\.idx$/, ".pack")}`,
+        fanout,
+        shas: idx.subarray(shaStart, shaStart + count * 20),
+        offsets,
+      });
+    }
+    return packs;
+  }
+
+  private findInPack(pack: PackIndex, sha: string): number | undefined {
+    const target = Buffer.from(sha, "hex");
+    let low = target[0] === 0 ? 0 : pack.fanout[target[0] - 1];
+    let high = pack.fanout[target[0]];
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const cmp = Buffer.compare(
+        Buffer.from(pack.shas.subarray(mid * 20, mid * 20 + 20)),
+        target
+      );
+      if (cmp === 0) return Number(pack.offsets[mid]);
+      if (cmp < 0) low = mid + 1;
+      else high = mid;
+    }
+    return undefined;
+  }
+
+  private async readPackedObject(
+    sha: string
+  ): Promise<{ type: GitObjectType; body: Uint8Array } | undefined> {
+    // New packs may appear (e.g. after `git gc`), so reload once on a miss
+    for (const reload of [false, true]) {
+      if (reload || !this.packs) {
+        this.packs = await this.loadPacks();
+      }
+      for (const pack of this.packs) {
+        const offset = this.findInPack(pack, sha);
+        if (offset !== undefined) {
+          return this.readPackEntry(pack, offset);
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private async readPackEntry(
+    pack: PackIndex,
+    offset: number
+  ): Promise<{ type: GitObjectType; body: Uint8Array }> {
+    const { fs, zlib } = await this.load();
+    pack.pack ??= await fs.readFile(pack.packPath);
+    const data = pack.pack;
+
+    let pos = offset;
+    let byte = data[pos++];
+    const typeId = (byte >> 4) & 7;
+    while (byte & 0x80) byte = data[pos++]; // Inflated size; not needed
+
+    if (typeId === 6 || typeId === 7) {
+      let base: { type: GitObjectType; body: Uint8Array };
+      if (typeId === 6) {
+        byte = data[pos++];
+        let distance = byte & 0x7f;
+        while (byte & 0x80) {
+          byte = data[pos++];
+          distance = (distance + 1) * 128 + (byte & 0x7f);
+        }
+        base = await this.readPackEntry(pack, offset - distance);
+      } else {
+        const baseSha = Buffer.from(data.subarray(pos, pos + 20)).toString("hex");
+        pos += 20;
+        base = await this.readObject(baseSha);
+      }
+      const delta = zlib.inflateSync(data.subarray(pos));
+      return { type: base.type, body: this.applyDelta(base.body, delta) };
+    }
+
+    const type = PACK_TYPES[typeId];
+    if (!type) {
+      throw new Error(`Unsupported pack object type ${typeId}`);
+    }
+    return { type, body: zlib.inflateSync(data.subarray(pos)) };
+  }
+
+  private applyDelta(base: Uint8Array, delta: Uint8Array): Uint8Array {
+    let pos = 0;
+    const readSize = () => {
+      let size = 0;
+      let shift = 1;
+      let byte: number;
+      do {
+        byte = delta[pos++];
+        size += (byte & 0x7f) * shift;
+        shift *= 128;
+      } while (byte & 0x80);
+      return size;
+    };
+
+    readSize(); // Base size
+    const result = new Uint8Array(readSize());
+    let out = 0;
+
+    while (pos < delta.length) {
+      const op = delta[pos++];
+      if (op & 0x80) {
+        let copyOffset = 0;
+        let copySize = 0;
+        for (let i = 0; i < 4; i++) {
+          if (op & (1 << i)) copyOffset += delta[pos++] * 2 ** (8 * i);
+        }
+        for (let i = 0; i < 3; i++) {
+          if (op & (1 << (4 + i))) copySize += delta[pos++] * 2 ** (8 * i);
+        }
+        if (copySize === 0) copySize = 0x10000;
+        result.set(base.subarray(copyOffset, copyOffset + copySize), out);
+        out += copySize;
+      } else if (op > 0) {
+        result.set(delta.subarray(pos, pos + op), out);
+        pos += op;
+        out += op;
+      } else {
+        throw new Error("Invalid delta instruction");
+      }
+    }
+
+    return result;
+  }
+
+  // --- Trees and commits ---------------------------------------------------
+
+  private async readTree(sha: string): Promise<TreeEntry[]> {
+    const cached = this.trees.get(sha);
+    if (cached) return cached;
+
+    const { body } = await this.readObject(sha);
+    const entries: TreeEntry[] = [];
+    let pos = 0;
+    while (pos < body.length) {
+      const space = body.indexOf(0x20, pos);
+      const nul = body.indexOf(0, space);
+      entries.push({
+        mode: Buffer.from(body.subarray(pos, space)).toString("utf-8"),
+        name: Buffer.from(body.subarray(space + 1, nul)).toString("utf-8"),
+        sha: Buffer.from(body.subarray(nul + 1, nul + 21)).toString("hex"),
+      });
+      pos = nul + 21;
+    }
+    this.trees.set(sha, entries);
+    return entries;
+  }
+
+  private async writeTree(entries: TreeEntry[]): Promise<string> {
+    // Git sorts tree entries by name, comparing directories as if they ended in "/"
+    const key = (e: TreeEntry) => (e.mode === TREE_MODE ? `${e.name}/` : e.name);
+    const sorted = [...entries].sort((a, b) =>
+      Buffer.compare(Buffer.from(key(a)), Buffer.from(key(b)))
+    );
+    const body = Buffer.concat(
+      sorted.flatMap((e) => [
+        Buffer.from(`${e.mode} ${e.name}\0`),
+        Buffer.from(e.sha, "hex"),
+      ])
+    );
+    const sha = await this.writeObject("tree", body);
+    this.trees.set(sha, sorted);
+    return sha;
+  }
+
+  private async readCommit(sha: string): Promise<ParsedCommit> {
+    const { type, body } = await this.readObject(sha);
+    if (type !== "commit") {
+      throw new Error(`Object ${sha} is a ${type}, not a commit`);
+    }
+    const text = Buffer.from(body).toString("utf-8");
+    const split = text.indexOf("\n\n");
+    const headers = text.slice(0, split).split("\n");
+    const commit: ParsedCommit = {
+      sha,
+      tree: "",
+      parents: [],
+      author: { name: "", email: "" },
+      timestamp: "",
+      message: text.slice(split + 2).replace(/\n$/, ""),
+    };
+
+    for (const line of headers) {
+      const [key, ...rest] = line.split(" ");
+      const value = rest.join(" ");
+      if (key === "tree") commit.tree = value;
+      if (key === "parent") commit.parents.push(value);
+      if (key === "author") {
+        const match = /^(.*) <(.*)> (\d+) [+-]\d{4}$/.exec(value);
+        if (match) {
+          commit.author = { name: match[1], email: match[2] };
+          commit.timestamp = new Date(Number(match[3]) * 1000).toISOString();
+        }
+      }
+    }
+    return commit;
+  }
+
+  private async writeCommit(
+    tree: string,
+    parent: string | undefined,
+    message: string
+  ): Promise<string> {
+    const signature = `${this.author.name} <${this.author.email}> ${Math.floor(
+      Date.now() / 1000
+    )} +0000`;
+    const lines = [
+      `tree ${tree}`,
+      ...(parent ? [`parent ${parent}`] : []),
+      `author ${signature}`,
+      `committer ${signature}`,
+      "",
+      message.endsWith("\n") ? message : `${message}\n`,
+    ];
+    return this.writeObject("commit", Buffer.from(lines.join("\n")));
+  }
+
+  private async lookup(
+    treeSha: string,
+    path: string
+  ): Promise<TreeEntry | undefined> {
+    const segments = path.split("/").filter(Boolean);
+    let entry: TreeEntry = { mode: TREE_MODE, name: "", sha: treeSha };
+    for (const segment of segments) {
+      if (entry.mode !== TREE_MODE) return undefined;
+      const next = (await this.readTree(entry.sha)).find(
+        (e) => e.name === segment
+      );
+      if (!next) return undefined;
+      entry = next;
+    }
+    return entry;
+  }
+
+  /**
+   * Writes the trees for a set of changes on top of `treeSha`. Returns null
+   * when the resulting tree is empty (Git does not store empty directories).
+   */
+  private async applyChanges(
+    treeSha: string | undefined,
+    changes: PendingChange[]
+  ): Promise<string | null> {
+    const entries = new Map(
+      (treeSha ? await this.readTree(treeSha) : []).map((e) => [e.name, e])
+    );
+    const nested = new Map<string, PendingChange[]>();
+
+    for (const change of changes) {
+      const [name, ...rest] = change.segments;
+      if (rest.length === 0) {
+        if (change.blobSha === null) entries.delete(name);
+        else entries.set(name, { mode: FILE_MODE, name, sha: change.blobSha });
+        continue;
+      }
+      if (!nested.has(name)) nested.set(name, []);
+      nested.get(name)!.push({ segments: rest, blobSha: change.blobSha });
+    }
+
+    for (const [name, subChanges] of nested) {
+      const existing = entries.get(name);
+      const subtree = await this.applyChanges(
+        existing?.mode === TREE_MODE ? existing.sha : undefined,
+        subChanges
+      );
+      if (subtree) entries.set(name, { mode: TREE_MODE, name, sha: subtree });
+      else entries.delete(name);
+    }
+
+    return entries.size > 0 ? this.writeTree(Array.from(entries.values())) : null;
+  }
+
+  // --- Refs ----------------------------------------------------------------
+
+  private async readRef(name: string): Promise<string | undefined> {
+    const { fs } = await this.load();
+    const gitDir = await this.resolveGitDir();
+    try {
+      return (await fs.readFile(`${gitDir}/${name}`, "utf-8")).trim();
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+
+    try {
+      const packed = await fs.readFile(`${gitDir}/packed-refs`, "utf-8");
+      for (const line of packed.split("\n")) {
+        const [sha, ref] = line.split(" ");
+        if (ref === name) return sha;
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+    return undefined;
+  }
+
+  private headRef(): Promise<string | undefined> {
+    return this.readRef(`refs/heads/${this.branch}`);
+  }
+
+  /**
+   * Moves the branch from `expected` to `next`, or throws ConcurrencyError if
+   * someone else moved it first. The `.lock` file makes the swap exclusive,
+   * just like `git update-ref`.
+   */
+  private async compareAndSwapHead(
+    expected: string | undefined,
+    next: string,
+    conflictPath: string
+  ): Promise<void> {
+    const { fs } = await this.load();
+    const gitDir = await this.resolveGitDir();
+    const refFile = `${gitDir}/refs/heads/${this.branch}`;
+    const lockFile = `${refFile}.lock`;
+
+    await fs.mkdir(refFile.slice(0, refFile.lastIndexOf("/")), {
+      recursive: true,
+    });
+    let lock;
+    try {
+      lock = await fs.open(lockFile, "wx");
+    } catch (error: any) {
+      if (error.code === "EEXIST") throw new ConcurrencyError(conflictPath);
+      throw error;
+    }
+
+    let renamed = false;
+    try {
+      if ((await this.headRef()) !== expected) {
+        throw new ConcurrencyError(conflictPath);
+      }
+      await lock.writeFile(`${next}\n`);
+      await lock.close();
+      lock = undefined;
+      await fs.rename(lockFile, refFile);
+      renamed = true;
+    } finally {
+      if (lock) {
+        await lock.close();
+      }
+      // After the rename the lock path may already belong to another writer
+      if (!renamed) {
+        await fs.rm(lockFile, { force: true });
+      }
+    }
+  }
+
+  private async headCommit(): Promise<ParsedCommit | undefined> {
+    const sha = await this.headRef();
+    return sha ? this.readCommit(sha) : undefined;
+  }
+
+  private async commitChanges(
+    changes: CommitChange[],
+    message: string,
+    conflictPath: string,
+    check?: (head: ParsedCommit | undefined) => Promise<void>
+  ): Promise<{ commit: string; blobs: Map<string, string | null> }> {
+    const head = await this.headCommit();
+    if (check) await check(head);
+
+    const blobs = new Map<string, string | null>();
+    const pending: PendingChange[] = [];
+    for (const change of changes) {
+      const blobSha =
+        change.content === null
+          ? null
+          : await this.writeObject(
+              "blob",
+              Buffer.from(JSON.stringify(change.content, null, 2))
+            );
+      blobs.set(change.path, blobSha);
+      pending.push({ segments: change.path.split("/").filter(Boolean), blobSha });
+    }
+
+    const tree =
+      (await this.applyChanges(head?.tree, pending)) ??
+      (await this.writeTree([]));
+    const commit = await this.writeCommit(tree, head?.sha, message);
+    await this.compareAndSwapHead(head?.sha, commit, conflictPath);
+    return { commit, blobs };
+  }
+
+  private async treeAt(ref?: string): Promise<string | undefined> {
+    if (ref) return (await this.readCommit(ref)).tree;
+    return (await this.headCommit())?.tree;
+  }
+
+  // --- IStorageProvider ----------------------------------------------------
+
+  async testConnection(): Promise<boolean> {
+    const { fs } = await this.load();
+    try {
+      await fs.stat(`${await this.resolveGitDir()}/objects`);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async exists(path: string, ref?: string): Promise<boolean> {
+    const tree = await this.treeAt(ref);
+    return tree ? (await this.lookup(tree, path)) !== undefined : false;
+  }
+
+  async readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>> {
+    const tree = await this.treeAt(ref);
+    const entry = tree ? await this.lookup(tree, path) : undefined;
+    if (!entry || entry.mode === TREE_MODE) {
+      throw this.notFound(path);
+    }
+    const { body } = await this.readObject(entry.sha);
+    return {
+      data: JSON.parse(Buffer.from(body).toString("utf-8")) as T,
+      sha: entry.sha,
+    };
+  }
+
+  async writeJson<T>(
+    path: string,
+    content: T,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    const { blobs } = await this.commitChanges(
+      [{ path, content }],
+      message,
+      path,
+      async (head) => {
+        // Like the GitHub provider, a missing SHA means "overwrite whatever is there"
+        if (sha === undefined) return;
+        const current = head ? await this.lookup(head.tree, path) : undefined;
+        if (current?.sha !== sha) throw new ConcurrencyError(path);
+      }
+    );
+    return blobs.get(path)!;
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    await this.commitChanges(
+      [{ path, content: null }],
+      message,
+      path,
+      async (head) => {
+        const current = head ? await this.lookup(head.tree, path) : undefined;
+        if (!current) throw this.notFound(path);
+        if (current.sha !== sha) throw new ConcurrencyError(path);
+      }
+    );
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string
+  ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]> {
+    const tree = await this.treeAt(ref);
+    const entry = tree ? await this.lookup(tree, path) : undefined;
+    if (!entry || entry.mode !== TREE_MODE) {
+      return [];
+    }
+    const dir = path.replace(/\/+$/, "");
+    return (await this.readTree(entry.sha)).map((e) => ({
+      path: dir ? `${dir}/${e.name}` : e.name,
+      sha: e.sha,
+      type: e.mode === TREE_MODE ? ("dir" as const) : ("file" as const),
+    }));
+  }
+
+  async commit(
+    changes: CommitChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    if (changes.length === 0) {
+      throw new Error("No changes to commit");
+    }
+    const { commit } = await this.commitChanges(
+      changes,
+      message,
+      "batch-commit",
+      async (head) => {
+        // Checked against the head the commit is built on; the ref swap
+        // fails if the branch moves after this
+        const current = new Map<string, string | undefined>();
+        for (const path of Object.keys(options.expectedShas ?? {})) {
+          const entry = head ? await this.lookup(head.tree, path) : undefined;
+          current.set(
+            path,
+            entry && entry.mode !== TREE_MODE ? entry.sha : undefined
+          );
+        }
+        assertExpectedShas(options.expectedShas, (path) => current.get(path));
+      }
+    );
+    return commit;
+  }
+
+  async getHistory<T>(path: string): Promise<Revision<T>[]> {
+    const revisions: Revision<T>[] = [];
+    let commit = await this.headCommit();
+
+    // Follows first parents, like `git log --first-parent -- <path>`
+    while (commit) {
+      const parent = commit.parents[0]
+        ? await this.readCommit(commit.parents[0])
+        : undefined;
+      const entry = await this.lookup(commit.tree, path);
+      const parentEntry = parent
+        ? await this.lookup(parent.tree, path)
+        : undefined;
+
+      if (entry?.sha !== parentEntry?.sha) {
+        let data: T | null = null;
+        if (entry && entry.mode !== TREE_MODE) {
+          const { body } = await this.readObject(entry.sha);
+          data = JSON.parse(Buffer.from(body).toString("utf-8")) as T;
+        }
+        revisions.push({
+          sha: commit.sha,
+          author: commit.author,
+          timestamp: commit.timestamp,
+          message: commit.message,
+          data,
+        });
+      }
+      commit = parent;
+    }
+
+    return revisions;
+  }
+
+  async resolveRef(ref: string | Date): Promise<string> {
+    if (ref instanceof Date) {
+      let commit = await this.headCommit();
+      while (commit && new Date(commit.timestamp) > ref) {
+        commit = commit.parents[0]
+          ? await this.readCommit(commit.parents[0])
+          : undefined;
+      }
+      if (!commit) {
+        throw new Error(`No commit found at or before ${ref.toISOString()}`);
+      }
+      return commit.sha;
+    }
+
+    const named =
+      (await this.readRef(`refs/heads/${ref}`)) ??
+      (await this.readRef(`refs/tags/${ref}`)) ??
+      (ref.startsWith("refs/") ? await this.readRef(ref) : undefined);
+    let sha = named ?? (/^[0-9a-f]{40}$/i.test(ref) ? ref.toLowerCase() : undefined);
+    if (!sha) {
+      throw this.notFound(ref);
+    }
+
+    // Peel annotated tags down to the commit they point at
+    let object = await this.readObject(sha);
+    while (object.type === "tag") {
+      sha = /^object ([0-9a-f]{40})/m.exec(
+        Buffer.from(object.body).toString("utf-8")
+      )![1];
+      object = await this.readObject(sha);
+    }
+    return sha;
+  }
+}
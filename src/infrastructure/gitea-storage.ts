@@ -0,0 +1,323 @@
+import {
+  CommitChange,
+  CommitOptions,
+  ConcurrencyError,
+  GiteaDBConfig,
+  Revision,
+} from "../core/types.js";
+import { ICacheProvider } from "./cache-provider.js";
+import {
+  decodeBase64,
+  DirectoryEntry,
+  encodeBase64,
+  ForgeFile,
+  ForgeStorageProvider,
+  HISTORY_CONCURRENCY,
+  mapConcurrent,
+} from "./forge-storage.js";
+import { HttpClient, HttpRequest, HttpResponse } from "./http-client.js";
+import { gitBlobSha } from "./sha1.js";
+
+interface GiteaContent {
+  path: string;
+  sha: string;
+  type: "file" | "dir" | "symlink" | "submodule";
+  content?: string | null;
+}
+
+interface GiteaCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string };
+  };
+}
+
+/**
+ * Stores JSON files in a Gitea (or Forgejo) repository through the contents
+ * API (v1). Like GitHub, Gitea locks writes on the file's blob SHA.
+ */
+export class GiteaStorageProvider extends ForgeStorageProvider {
+  protected readonly forgeName = "Gitea";
+  private http: HttpClient;
+  private readonly branch: string;
+
+  constructor(private config: GiteaDBConfig, cache?: ICacheProvider) {
+    super(config, cache);
+    this.http = new HttpClient(
+      `${config.baseUrl.replace(/\/+$/, "")}/api/v1/repos/${encodeURIComponent(
+        config.owner
+      )}/${encodeURIComponent(config.repo)}`,
+      { authorization: `token ${config.accessToken}` },
+      config.fetch
+    );
+    this.branch = config.branch || "main";
+  }
+
+  private request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    return this.retryWithBackoff(() => this.http.request<T>(request));
+  }
+
+  private contentsPath(path: string): string {
+    return `/contents/${path.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  protected isConflict(error: any): boolean {
+    if (error?.status === 409) return true;
+    // Older Gitea versions report a stale SHA as a validation error
+    return error?.status === 422 && /sha/i.test(error.message ?? "");
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.request({ path: "" });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  protected async pathExists(path: string, ref?: string): Promise<boolean> {
+    try {
+      await this.request({
+        path: this.contentsPath(path.replace(/\/+$/, "")),
+        query: { ref: ref ?? this.branch },
+      });
+      return true;
+    } catch (error: any) {
+      if (error.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  protected async fetchFile(
+    path: string,
+    { ref, etag }: { ref?: string; etag?: string }
+  ): Promise<ForgeFile | null> {
+    let response: HttpResponse<GiteaContent | GiteaContent[]>;
+    try {
+      response = await this.request<GiteaContent | GiteaContent[]>({
+        path: this.contentsPath(path),
+        query: { ref: ref ?? this.branch },
+        headers: etag ? { "if-none-match": `"${etag}"` } : {},
+      });
+    } catch (error: any) {
+      if (error.status === 304 && etag) {
+        return null;
+      }
+      throw error;
+    }
+
+    const data = response.data;
+    if (Array.isArray(data)) {
+      throw new Error("Path is a directory, not a file");
+    }
+    if (typeof data.content !== "string" || !data.sha) {
+      throw new Error("No content or SHA in response");
+    }
+
+    // Servers that ignore If-None-Match still let us skip the JSON parse
+    if (etag && data.sha === etag) {
+      return null;
+    }
+
+    return { content: decodeBase64(data.content), sha: data.sha };
+  }
+
+  protected async fetchSha(path: string): Promise<string | undefined> {
+    try {
+      const { data } = await this.request<GiteaContent | GiteaContent[]>({
+        path: this.contentsPath(path),
+        query: { ref: this.branch },
+      });
+      return Array.isArray(data) ? undefined : data.sha;
+    } catch (error: any) {
+      if (error.status !== 404) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  protected async putFile(
+    path: string,
+    content: string,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    const { data } = await this.request<{ content: { sha: string } | null }>({
+      method: sha ? "PUT" : "POST",
+      path: this.contentsPath(path),
+      body: {
+        branch: this.branch,
+        message,
+        content: encodeBase64(content),
+        ...(sha ? { sha } : {}),
+      },
+    });
+    return data.content?.sha ?? gitBlobSha(content);
+  }
+
+  protected async removeFile(
+    path: string,
+    message: string,
+    sha: string
+  ): Promise<void> {
+    await this.request({
+      method: "DELETE",
+      path: this.contentsPath(path),
+      body: { branch: this.branch, message, sha },
+    });
+  }
+
+  /**
+   * Uses the multi-file contents endpoint (Gitea 1.20+), which needs the
+   * current SHA of every file that is updated or deleted.
+   */
+  protected async commitFiles(
+    changes: CommitChange[],
+    message: string,
+    expectedShas?: CommitOptions["expectedShas"]
+  ): Promise<{ commit: string; blobs: Map<string, string> }> {
+    const current = await this.verifyExpectedShas(
+      changes,
+      expectedShas,
+      (path) => this.fetchSha(path),
+      (sha) => sha
+    );
+    const files = changes.map((change) => {
+      const sha = current.get(change.path);
+      if (change.content === null) {
+        // Someone else deleted it first
+        if (!sha) {
+          throw new ConcurrencyError(change.path);
+        }
+        return { operation: "delete", path: change.path, sha };
+      }
+      return {
+        operation: sha ? "update" : "create",
+        path: change.path,
+        content: encodeBase64(this.serialize(change.content)),
+        ...(sha ? { sha } : {}),
+      };
+    });
+
+    const { data } = await this.request<{
+      files: ({ path: string; sha: string } | null)[] | null;
+      commit: { sha: string };
+    }>({
+      method: "POST",
+      path: "/contents",
+      body: { branch: this.branch, message, files },
+    });
+
+    const blobs = new Map<string, string>();
+    for (const change of changes) {
+      if (change.content !== null) {
+        blobs.set(change.path, gitBlobSha(this.serialize(change.content)));
+      }
+    }
+    for (const file of data.files ?? []) {
+      if (file?.path && file.sha) {
+        blobs.set(file.path, file.sha);
+      }
+    }
+
+    return { commit: data.commit.sha, blobs };
+  }
+
+  async listDirectory(path: string, ref?: string): Promise<DirectoryEntry[]> {
+    try {
+      const { data } = await this.request<GiteaContent | GiteaContent[]>({
+        path: this.contentsPath(path.replace(/\/+$/, "")),
+        query: { ref: ref ?? this.branch },
+      });
+
+      if (!Array.isArray(data)) {
+        throw new Error("Path is not a directory");
+      }
+
+      return data.map((item) => ({
+        path: item.path,
+        sha: item.sha,
+        type: item.type === "dir" ? "dir" : "file",
+      }));
+    } catch (error: any) {
+      if (error.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private async listCommits(
+    query: Record<string, string | number | boolean>
+  ): Promise<GiteaCommit[]> {
+    const { data } = await this.request<GiteaCommit[]>({
+      path: "/commits",
+      query: { sha: this.branch, stat: false, ...query },
+    });
+    return data;
+  }
+
+  async getHistory<T>(path: string): Promise<Revision<T>[]> {
+    // Gitea caps page sizes at 50 by default
+    const perPage = 50;
+    const commits: GiteaCommit[] = [];
+
+    for (let page = 1; ; page++) {
+      const data = await this.listCommits({ path, limit: perPage, page });
+      commits.push(...data);
+      if (data.length < perPage) break;
+    }
+
+    return mapConcurrent(commits, HISTORY_CONCURRENCY, async (commit) => {
+      let data: T | null = null;
+      try {
+        const file = await this.fetchFile(path, { ref: commit.sha });
+        data = JSON.parse(file!.content) as T;
+      } catch (error: any) {
+        // The commit deleted the file, so there is no content at this revision
+        if (error.status !== 404) {
+          throw error;
+        }
+      }
+
+      return {
+        sha: commit.sha,
+        author: {
+          name: commit.commit.author.name,
+          email: commit.commit.author.email,
+        },
+        timestamp: commit.commit.author.date,
+        message: commit.commit.message,
+        data,
+      };
+    });
+  }
+
+  async resolveRef(ref: string | Date): Promise<string> {
+    if (ref instanceof Date) {
+      const data = await this.listCommits({
+        until: ref.toISOString(),
+        limit: 1,
+      });
+      if (data.length === 0) {
+        throw new Error(`No commit found at or before ${ref.toISOString()}`);
+      }
+      return data[0].sha;
+    }
+
+    // A full commit SHA is already immutable
+    if (/^[0-9a-f]{40}$/i.test(ref)) {
+      return ref;
+    }
+
+    const { data } = await this.request<{ sha: string }>({
+      path: `/git/commits/${encodeURIComponent(ref)}`,
+    });
+    return data.sha;
+  }
+}
@@ -1,82 +1,33 @@
 import { Octokit } from "@octokit/rest";
 import {
-  ConcurrencyError,
-  RateLimitError,
-  RetryConfig,
   GitHubDBConfig,
-  IStorageProvider,
-  StorageResponse,
   CommitChange,
+  CommitOptions,
+  DirectoryFile,
+  Revision,
 } from "../core/types.js";
-import { ICacheProvider, MemoryCacheProvider } from "./cache-provider.js";
-
-export class GitHubStorageProvider implements IStorageProvider {
+import { ICacheProvider } from "./cache-provider.js";
+import { assertExpectedShas } from "./expected-shas.js";
+import { gitBlobSha } from "./sha1.js";
+import {
+  BLOB_CONCURRENCY,
+  decodeBase64,
+  encodeBase64,
+  ForgeFile,
+  ForgeStorageProvider,
+  HISTORY_CONCURRENCY,
+  mapConcurrent,
+} from "./forge-storage.js";
+
+export class GitHubStorageProvider extends ForgeStorageProvider {
+  protected readonly forgeName = "GitHub";
   private octokit: Octokit;
-  private cache: ICacheProvider;
-  private staleCache = new Map<string, StorageResponse<any>>();
-  private readonly DEFAULT_TTL = 0; // Default to 0 for consistency
 
   constructor(private config: GitHubDBConfig, cache?: ICacheProvider) {
+    super(config, cache);
     this.octokit = new Octokit({
       auth: this.config.accessToken,
     });
-    this.cache = cache || new MemoryCacheProvider();
-  }
-
-  private async retryWithBackoff<T>(fn: () => Promise<T>): Promise<T> {
-    if (this.config.retry === false) return fn();
-
-    const {
-      maxRetries = 3,
-      baseDelay = 1000,
-      maxDelay = 10000,
-    } = this.config.retry ?? {};
-
-    let lastError: Error & { status?: number; response?: any };
-
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        return await fn();
-      } catch (error: any) {
-        lastError = error;
-        const status = error?.status;
-
-        // Non-retryable: 409 (concurrency), 4xx client errors (except 429)
-        if (status === 409) throw error;
-        if (status && status < 500 && status !== 429) throw error;
-        // Errors without a status code (non-HTTP errors) — rethrow
-        if (!status) throw error;
-
-        // Last attempt — don't wait, just break
-        if (attempt === maxRetries) break;
-
-        // Calculate delay
-        let delay: number;
-        if (status === 429 && error.response?.headers?.["retry-after"]) {
-          delay =
-            parseInt(error.response.headers["retry-after"], 10) * 1000;
-        } else {
-          delay = baseDelay * Math.pow(2, attempt);
-          // Add jitter to avoid thundering herd on simultaneous retries
-          delay = delay * (0.5 + Math.random() * 0.5);
-        }
-
-        // Cap all delays (including Retry-After) against maxDelay
-        delay = Math.min(delay, maxDelay);
-
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
-
-    // Exhausted retries on 429 → RateLimitError
-    if (lastError!.status === 429) {
-      const retryAfter = lastError!.response?.headers?.["retry-after"];
-      throw new RateLimitError(
-        retryAfter ? parseInt(retryAfter, 10) : undefined
-      );
-    }
-
-    throw lastError!;
   }
 
   async testConnection(): Promise<boolean> {
@@ -93,17 +44,14 @@ export class GitHubStorageProvider implements IStorageProvider {
     }
   }
 
-  async exists(path: string): Promise<boolean> {
-    if (this.cache.get(path) || this.staleCache.has(path)) {
-      return true;
-    }
-
+  protected async pathExists(path: string, ref?: string): Promise<boolean> {
     try {
       await this.retryWithBackoff(() =>
         this.octokit.repos.getContent({
           owner: this.config.owner,
           repo: this.config.repo,
           path,
+          ...(ref ? { ref } : {}),
         })
       );
       return true;
@@ -115,232 +63,468 @@ export class GitHubStorageProvider implements IStorageProvider {
     }
   }
 
-  async readJson<T>(path: string): Promise<StorageResponse<T>> {
-    // 1. Check fresh cache (blind trust)
-    const fresh = this.cache.get<T>(path);
-    if (fresh) {
-      return fresh;
-    }
-
-    // 2. Check stale cache for conditional request
-    const stale = this.staleCache.get(path) as StorageResponse<T> | undefined;
-
+  protected async fetchFile(
+    path: string,
+    { ref, etag }: { ref?: string; etag?: string }
+  ): Promise<ForgeFile | null> {
+    let response;
     try {
-      const response = await this.retryWithBackoff(() =>
+      response = await this.retryWithBackoff(() =>
         this.octokit.repos.getContent({
           owner: this.config.owner,
           repo: this.config.repo,
           path,
-          headers: stale ? { "if-none-match": `"${stale.sha}"` } : {},
+          ...(ref
+            ? { ref }
+            : { headers: etag ? { "if-none-match": `"${etag}"` } : {} }),
         })
       );
-
-      if (Array.isArray(response.data)) {
-        throw new Error("Path is a directory, not a file");
+    } catch (error: any) {
+      if (error.status === 304 && etag) {
+        return null;
       }
+      throw error;
+    }
 
-      if (!("content" in response.data) || !("sha" in response.data)) {
-        throw new Error("No content or SHA in response");
-      }
+    if (Array.isArray(response.data)) {
+      throw new Error("Path is a directory, not a file");
+    }
 
-      const binary = atob(response.data.content.replace(/\s/g, ""));
-      const bytes = new Uint8Array(binary.length);
-      for (let i = 0; i < binary.length; i++) {
-        bytes[i] = binary.charCodeAt(i);
-      }
-      const decoder = new TextDecoder("utf-8");
-      const content = decoder.decode(bytes);
-      const result = {
-        data: JSON.parse(content) as T,
-        sha: response.data.sha,
-      };
+    if (!("content" in response.data) || !("sha" in response.data)) {
+      throw new Error("No content or SHA in response");
+    }
 
-      // Update both caches
-      const ttl = this.config.cacheTTL ?? this.DEFAULT_TTL;
-      this.cache.set(path, result, ttl);
-      this.staleCache.set(path, result);
+    return {
+      content: decodeBase64(response.data.content),
+      sha: response.data.sha,
+    };
+  }
 
-      return result;
-    } catch (error: any) {
-      if (error.status === 304 && stale) {
-        // Re-cache as fresh and return stale data
-        const ttl = this.config.cacheTTL ?? this.DEFAULT_TTL;
-        this.cache.set(path, stale, ttl);
-        return stale;
+  async resolveRef(ref: string | Date): Promise<string> {
+    if (ref instanceof Date) {
+      const { data } = await this.retryWithBackoff(() =>
+        this.octokit.repos.listCommits({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          sha: this.config.branch || "main",
+          until: ref.toISOString(),
+          per_page: 1,
+        })
+      );
+      if (data.length === 0) {
+        throw new Error(`No commit found at or before ${ref.toISOString()}`);
       }
-      throw error;
+      return data[0].sha;
     }
-  }
-
-  async writeJson<T>(
-    path: string,
-    content: T,
-    message: string,
-    sha?: string
-  ): Promise<string> {
-    let internalSha = sha;
 
-    if (!internalSha) {
-      const cached = this.cache.get<any>(path) || this.staleCache.get(path);
-      if (cached) {
-        internalSha = cached.sha;
-      } else {
-        try {
-          const existing = await this.retryWithBackoff(() =>
-            this.octokit.repos.getContent({
-              owner: this.config.owner,
-              repo: this.config.repo,
-              path,
-            })
-          );
-
-          if (!Array.isArray(existing.data) && "sha" in existing.data) {
-            internalSha = existing.data.sha;
-          }
-        } catch (error: any) {
-          if (error.status !== 404) {
-            throw error;
-          }
-        }
-      }
+    // A full commit SHA is already immutable
+    if (/^[0-9a-f]{40}$/i.test(ref)) {
+      return ref;
     }
 
-    // Note: internalSha is resolved before the retry wrapper. If a write fails
-    // with a 5xx after GitHub has already committed the file (e.g. network timeout),
-    // the retry will reuse the stale sha and may fail with a 409.
+    const { data } = await this.retryWithBackoff(() =>
+      this.octokit.repos.getCommit({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref,
+      })
+    );
+    return data.sha;
+  }
+
+  protected async fetchSha(path: string): Promise<string | undefined> {
     try {
-      const response = await this.retryWithBackoff(() =>
-        this.octokit.repos.createOrUpdateFileContents({
+      const existing = await this.retryWithBackoff(() =>
+        this.octokit.repos.getContent({
           owner: this.config.owner,
           repo: this.config.repo,
           path,
-          message,
-          content: btoa(
-            Array.from(
-              new TextEncoder().encode(JSON.stringify(content, null, 2))
-            )
-              .map((b) => String.fromCharCode(b))
-              .join("")
-          ),
-          sha: internalSha,
         })
       );
 
-      const newSha = response.data.content?.sha || "";
-      const result = { data: content, sha: newSha };
-      const ttl = this.config.cacheTTL ?? this.DEFAULT_TTL;
-
-      this.cache.set(path, result, ttl);
-      this.staleCache.set(path, result);
-
-      return newSha;
+      if (!Array.isArray(existing.data) && "sha" in existing.data) {
+        return existing.data.sha;
+      }
+      return undefined;
     } catch (error: any) {
-      if (error.status === 409) {
-        throw new ConcurrencyError(path);
+      if (error.status !== 404) {
+        throw error;
       }
-      throw error;
+      return undefined;
     }
   }
 
-  async commit(changes: CommitChange[], message: string): Promise<string> {
-    if (changes.length === 0) {
-      throw new Error("No changes to commit");
+  protected async putFile(
+    path: string,
+    content: string,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    const response = await this.retryWithBackoff(() =>
+      this.octokit.repos.createOrUpdateFileContents({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        path,
+        message,
+        content: encodeBase64(content),
+        sha,
+      })
+    );
+    return response.data.content?.sha || "";
+  }
+
+  protected isConflict(error: any): boolean {
+    // GraphQL reports a moved branch head as a STALE_DATA error, REST as a
+    // 422 because the ref update is no longer a fast forward
+    return (
+      super.isConflict(error) ||
+      (error?.status === 422 && /fast forward/i.test(error.message ?? "")) ||
+      (Array.isArray(error?.errors) &&
+        error.errors.some((e: any) => e?.type === "STALE_DATA"))
+    );
+  }
+
+  protected async commitFiles(
+    changes: CommitChange[],
+    message: string,
+    expectedShas: CommitOptions["expectedShas"] = {}
+  ): Promise<{ commit: string; blobs: Map<string, string> }> {
+    if (this.config.commitMode === "graphql") {
+      return this.commitFilesGraphQL(changes, message, expectedShas);
     }
 
     const branch = this.config.branch || "main";
 
-    try {
-      // 1. Get the current head SHA
-      const { data: ref } = await this.retryWithBackoff(() =>
-        this.octokit.git.getRef({
-          owner: this.config.owner,
-          repo: this.config.repo,
-          ref: `heads/${branch}`,
-        })
-      );
-      const latestCommitSha = ref.object.sha;
+    // 1. Get the current head SHA
+    const { data: ref } = await this.retryWithBackoff(() =>
+      this.octokit.git.getRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${branch}`,
+      })
+    );
+    const latestCommitSha = ref.object.sha;
 
-      // 2. Get the tree SHA of the latest commit
-      const { data: latestCommit } = await this.retryWithBackoff(() =>
-        this.octokit.git.getCommit({
-          owner: this.config.owner,
-          repo: this.config.repo,
-          commit_sha: latestCommitSha,
-        })
+    // 2. Get the tree SHA of the latest commit
+    const { data: latestCommit } = await this.retryWithBackoff(() =>
+      this.octokit.git.getCommit({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        commit_sha: latestCommitSha,
+      })
+    );
+    const baseTreeSha = latestCommit.tree.sha;
+
+    // The commit is built on this tree, and updating the ref below fails if
+    // the branch moves in the meantime, so checking here is enough
+    const expectedPaths = Object.keys(expectedShas);
+    if (expectedPaths.length > 0) {
+      const current = await this.blobShasAt(
+        latestCommitSha,
+        baseTreeSha,
+        expectedPaths
       );
-      const baseTreeSha = latestCommit.tree.sha;
-
-      // 3. Create a new tree with multiple files
-      const treeEntries = changes.map((change) => {
-        if (change.content === null) {
-          return {
-            path: change.path,
-            mode: "100644" as const,
-            type: "blob" as const,
-            sha: null,
-          };
-        }
+      assertExpectedShas(expectedShas, (path) => current.get(path));
+    }
+
+    // 3. Create a new tree with multiple files
+    const treeEntries = changes.map((change) => {
+      if (change.content === null) {
         return {
           path: change.path,
           mode: "100644" as const,
           type: "blob" as const,
-          content: JSON.stringify(change.content, null, 2),
+          sha: null,
         };
-      });
+      }
+      return {
+        path: change.path,
+        mode: "100644" as const,
+        type: "blob" as const,
+        content: this.serialize(change.content),
+      };
+    });
 
-      const { data: newTree } = await this.retryWithBackoff(() =>
-        this.octokit.git.createTree({
-          owner: this.config.owner,
-          repo: this.config.repo,
-          base_tree: baseTreeSha,
-          tree: treeEntries,
-        })
-      );
+    const { data: newTree } = await this.retryWithBackoff(() =>
+      this.octokit.git.createTree({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        base_tree: baseTreeSha,
+        tree: treeEntries,
+      })
+    );
+
+    // 4. Create a new commit
+    const { data: newCommit } = await this.retryWithBackoff(() =>
+      this.octokit.git.createCommit({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        message,
+        tree: newTree.sha,
+        parents: [latestCommitSha],
+      })
+    );
+
+    // 5. Update the reference
+    await this.retryWithBackoff(() =>
+      this.octokit.git.updateRef({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: `heads/${branch}`,
+        sha: newCommit.sha,
+      })
+    );
+
+    const blobs = new Map<string, string>();
+    for (const entry of newTree.tree) {
+      if (entry.path && entry.sha) {
+        blobs.set(entry.path, entry.sha);
+      }
+    }
+
+    return { commit: newCommit.sha, blobs };
+  }
+
+  /**
+   * Looks up the blob SHAs of `paths` in a commit's tree with one recursive
+   * tree read, or file by file if GitHub truncated the listing.
+   */
+  private async blobShasAt(
+    commitSha: string,
+    treeSha: string,
+    paths: string[]
+  ): Promise<Map<string, string>> {
+    const { data: tree } = await this.retryWithBackoff(() =>
+      this.octokit.git.getTree({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        tree_sha: treeSha,
+        recursive: "true",
+      })
+    );
+
+    const shas = new Map<string, string>();
+    if (!tree.truncated) {
+      for (const entry of tree.tree) {
+        if (entry.type === "blob" && entry.path && entry.sha) {
+          shas.set(entry.path, entry.sha);
+        }
+      }
+      return shas;
+    }
+
+    for (const path of paths) {
+      try {
+        const { data } = await this.retryWithBackoff(() =>
+          this.octokit.repos.getContent({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            path,
+            ref: commitSha,
+          })
+        );
+        if (!Array.isArray(data) && data.type === "file") {
+          shas.set(path, data.sha);
+        }
+      } catch (error: any) {
+        if (error.status !== 404) throw error;
+      }
+    }
+    return shas;
+  }
+
+  /**
+   * Commits through the `createCommitOnBranch` mutation. GitHub applies the
+   * commit only if the branch still points at `expectedHeadOid`, so the head
+   * lookup and the write form a single compare-and-swap.
+   */
+  private async commitFilesGraphQL(
+    changes: CommitChange[],
+    message: string,
+    expectedShas: CommitOptions["expectedShas"] = {}
+  ): Promise<{ commit: string; blobs: Map<string, string> }> {
+    const branch = this.config.branch || "main";
 
-      // 4. Create a new commit
-      const { data: newCommit } = await this.retryWithBackoff(() =>
-        this.octokit.git.createCommit({
+    // The expected files are read in the same query as the head they belong to
+    const expectedPaths = Object.keys(expectedShas);
+    const fileVariables = expectedPaths.map((_, i) => `, $path${i}: String!`);
+    const fileFields = expectedPaths.map(
+      (_, i) => `file${i}: file(path: $path${i}) { type oid }`
+    );
+    const head = await this.retryWithBackoff(() =>
+      this.octokit.graphql<{
+        repository: {
+          ref: {
+            target: { oid: string } & Record<
+              string,
+              { type: string; oid: string } | null
+            >;
+          } | null;
+        };
+      }>(
+        `query ($owner: String!, $repo: String!, $ref: String!${fileVariables.join("")}) {
+          repository(owner: $owner, name: $repo) {
+            ref(qualifiedName: $ref) {
+              target { oid${fileFields.length ? ` ... on Commit { ${fileFields.join(" ")} }` : ""} }
+            }
+          }
+        }`,
+        {
           owner: this.config.owner,
           repo: this.config.repo,
-          message,
-          tree: newTree.sha,
-          parents: [latestCommitSha],
-        })
+          ref: `refs/heads/${branch}`,
+          ...Object.fromEntries(expectedPaths.map((path, i) => [`path${i}`, path])),
+        }
+      )
+    );
+    if (!head.repository.ref) {
+      throw Object.assign(new Error(`Branch not found: ${branch}`), {
+        status: 404,
+      });
+    }
+    const { target } = head.repository.ref;
+    const expectedHeadOid = target.oid;
+    assertExpectedShas(expectedShas, (path) => {
+      const file = target[`file${expectedPaths.indexOf(path)}`];
+      return file?.type === "blob" ? file.oid : undefined;
+    });
+
+    const blobs = new Map<string, string>();
+    const additions: { path: string; contents: string }[] = [];
+    const deletions: { path: string }[] = [];
+    for (const change of changes) {
+      if (change.content === null) {
+        deletions.push({ path: change.path });
+      } else {
+        const content = this.serialize(change.content);
+        additions.push({ path: change.path, contents: encodeBase64(content) });
+        // The mutation does not return blob SHAs, but they are derived from the content
+        blobs.set(change.path, gitBlobSha(content));
+      }
+    }
+
+    const [headline, ...body] = message.split("\n");
+    const mutate = () =>
+      this.octokit.graphql<{
+        createCommitOnBranch: { commit: { oid: string } };
+      }>(
+        `mutation ($input: CreateCommitOnBranchInput!) {
+          createCommitOnBranch(input: $input) { commit { oid } }
+        }`,
+        {
+          input: {
+            branch: {
+              repositoryNameWithOwner: `${this.config.owner}/${this.config.repo}`,
+              branchName: branch,
+            },
+            expectedHeadOid,
+            message: {
+              headline,
+              ...(body.length ? { body: body.join("\n").trim() } : {}),
+            },
+            fileChanges: { additions, deletions },
+          },
+        }
       );
 
-      // 5. Update the reference
-      await this.retryWithBackoff(() =>
-        this.octokit.git.updateRef({
-          owner: this.config.owner,
-          repo: this.config.repo,
-          ref: `heads/${branch}`,
-          sha: newCommit.sha,
-        })
+    let result;
+    try {
+      result = await this.retryWithBackoff(async () => {
+        try {
+          return await mutate();
+        } catch (error: any) {
+          // GitHub may have applied the commit before a 5xx or a dropped
+          // connection. Repeating it with the old head would then fail as a
+          // conflict, so those are not retried; 4xx and GraphQL errors are
+          // definite answers, and rate limits still retry.
+          if (error?.errors || (error?.status && error.status < 500)) {
+            throw error;
+          }
+          throw new AmbiguousCommitError(error);
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof AmbiguousCommitError)) throw error;
+      const applied = await this.findAppliedCommit(
+        branch,
+        expectedHeadOid,
+        headline,
+        blobs,
+        deletions.map((d) => d.path)
       );
+      if (!applied) throw error.cause;
+      result = { createCommitOnBranch: { commit: { oid: applied } } };
+    }
+
+    return { commit: result.createCommitOnBranch.commit.oid, blobs };
+  }
 
-      // 6. Update cache for all involved files
-      const ttl = this.config.cacheTTL ?? this.DEFAULT_TTL;
-      for (const entry of newTree.tree) {
-        if (entry.path && entry.sha) {
-          const change = changes.find((c) => c.path === entry.path);
-          if (change) {
-            const result = { data: change.content, sha: entry.sha };
-            this.cache.set(entry.path, result, ttl);
-            this.staleCache.set(entry.path, result);
+  /**
+   * After a commit mutation failed without a clear answer, checks whether the
+   * branch head is that commit anyway: a child of `parentOid` with the same
+   * headline and exactly the written files. Returns its oid if so.
+   */
+  private async findAppliedCommit(
+    branch: string,
+    parentOid: string,
+    headline: string,
+    blobs: Map<string, string>,
+    deleted: string[]
+  ): Promise<string | null> {
+    const paths = [...blobs.keys(), ...deleted];
+    const head = await this.retryWithBackoff(() =>
+      this.octokit.graphql<{
+        repository: {
+          ref: {
+            target: {
+              oid: string;
+              messageHeadline: string;
+              parents: { nodes: { oid: string }[] };
+            } & Record<string, { oid: string } | null>;
+          } | null;
+        };
+      }>(
+        `query ($owner: String!, $repo: String!, $ref: String!${paths.map((_, i) => `, $path${i}: String!`).join("")}) {
+          repository(owner: $owner, name: $repo) {
+            ref(qualifiedName: $ref) {
+              target {
+                oid
+                ... on Commit {
+                  messageHeadline
+                  parents(first: 2) { nodes { oid } }
+                  ${paths.map((_, i) => `file${i}: file(path: $path${i}) { oid }`).join(" ")}
+                }
+              }
+            }
           }
+        }`,
+        {
+          owner: this.config.owner,
+          repo: this.config.repo,
+          ref: `refs/heads/${branch}`,
+          ...Object.fromEntries(paths.map((path, i) => [`path${i}`, path])),
         }
-      }
+      )
+    );
 
-      return newCommit.sha;
-    } catch (error: any) {
-      if (error.status === 409) {
-        throw new ConcurrencyError("batch-commit");
-      }
-      throw error;
-    }
+    const target = head.repository.ref?.target;
+    const parents = target?.parents?.nodes ?? [];
+    const isOurs =
+      target !== undefined &&
+      parents.length === 1 &&
+      parents[0].oid === parentOid &&
+      target.messageHeadline === headline &&
+      paths.every(
+        (path, i) => (target[`file${i}`]?.oid ?? null) === (blobs.get(path) ?? null)
+      );
+    return isOurs ? target.oid : null;
   }
 
-  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+  protected async removeFile(
+    path: string,
+    message: string,
+    sha: string
+  ): Promise<void> {
     await this.retryWithBackoff(() =>
       this.octokit.repos.deleteFile({
         owner: this.config.owner,
@@ -350,12 +534,11 @@ export class GitHubStorageProvider implements IStorageProvider {
         sha,
       })
     );
-    this.cache.delete(path);
-    this.staleCache.delete(path);
   }
 
   async listDirectory(
-    path: string
+    path: string,
+    ref?: string
   ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]> {
     try {
       const response = await this.retryWithBackoff(() =>
@@ -363,6 +546,7 @@ export class GitHubStorageProvider implements IStorageProvider {
           owner: this.config.owner,
           repo: this.config.repo,
           path,
+          ...(ref ? { ref } : {}),
         })
       );
 
@@ -382,4 +566,186 @@ export class GitHubStorageProvider implements IStorageProvider {
       throw error;
     }
   }
+
+  /**
+   * Lists the directory through the Trees API and downloads only the blobs
+   * whose SHA is not already cached, so reloading a large sharded collection
+   * costs a tree read per path segment plus one request per changed document.
+   */
+  async readDirectory<T>(
+    path: string,
+    ref?: string
+  ): Promise<DirectoryFile<T>[]> {
+    const entries = (await this.listJsonFiles(path, ref)).map((entry) => ({
+      ...entry,
+      cached: this.cachedBlob<T>(entry.path, entry.sha, ref),
+    }));
+
+    const downloads = entries.filter((entry) => !entry.cached);
+    const downloaded = new Map<string, T>();
+    await mapConcurrent(downloads, BLOB_CONCURRENCY, async (entry) => {
+      const { data } = await this.retryWithBackoff(() =>
+        this.octokit.git.getBlob({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          file_sha: entry.sha,
+        })
+      );
+      downloaded.set(entry.path, JSON.parse(decodeBase64(data.content)) as T);
+    });
+
+    return entries.map(({ path, sha, cached }) => {
+      const result = { data: cached ? cached.data : downloaded.get(path)!, sha };
+      if (ref) {
+        this.snapshotCache.set(`${ref}:${path}`, result);
+      } else {
+        this.cache.set(path, result, this.ttl);
+        this.staleCache.set(path, result);
+      }
+      return { path, ...result };
+    });
+  }
+
+  /**
+   * Returns the `.json` blobs directly inside `path`, from the tree of that
+   * directory alone, so the cost grows with the collection and not the repo.
+   * Unlike the contents API, trees are not capped at 1000 entries.
+   */
+  async listJsonFiles(
+    path: string,
+    ref?: string
+  ): Promise<{ path: string; sha: string }[]> {
+    const dir = path.replace(/\/+$/, "");
+    const treeSha = await this.treeShaOf(dir, ref);
+    if (!treeSha) {
+      return [];
+    }
+    const tree = await this.listTree(treeSha, dir);
+    return tree.flatMap((entry) =>
+      entry.type === "blob" && entry.path?.endsWith(".json") && entry.sha
+        ? [{ path: `${dir}/${entry.path}`, sha: entry.sha }]
+        : []
+    );
+  }
+
+  /** Walks down from the root tree to the SHA of directory `path`, if it exists. */
+  private async treeShaOf(path: string, ref?: string): Promise<string | null> {
+    let sha = ref ?? (this.config.branch || "main");
+    const segments = path.split("/").filter(Boolean);
+    for (const [i, segment] of segments.entries()) {
+      const entry = (
+        await this.listTree(sha, segments.slice(0, i).join("/"))
+      ).find((e) => e.path === segment && e.type === "tree");
+      if (!entry?.sha) {
+        return null;
+      }
+      sha = entry.sha;
+    }
+    return sha;
+  }
+
+  // One level of a tree; a truncated listing would silently drop files
+  private async listTree(sha: string, path: string) {
+    const { data } = await this.retryWithBackoff(() =>
+      this.octokit.git.getTree({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        tree_sha: sha,
+      })
+    );
+    if (data.truncated) {
+      throw new Error(
+        `GitHub truncated the tree of "${path || "/"}"; it has too many entries to list`
+      );
+    }
+    return data.tree;
+  }
+
+  /** Returns the already loaded content of a blob, if any cache has it. */
+  private cachedBlob<T>(
+    path: string,
+    sha: string,
+    ref?: string
+  ): { data: T } | undefined {
+    const candidates = [
+      ref ? this.snapshotCache.get(`${ref}:${path}`) : undefined,
+      this.staleCache.get(path),
+    ];
+    return candidates.find((entry) => entry?.sha === sha);
+  }
+
+  /** Downloads the repository at `ref` (default: the branch) as a gzipped tarball. */
+  async downloadArchive(ref?: string): Promise<Uint8Array> {
+    const { data } = await this.retryWithBackoff(() =>
+      this.octokit.repos.downloadTarballArchive({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        ref: ref ?? (this.config.branch || "main"),
+      })
+    );
+    return new Uint8Array(data as ArrayBuffer);
+  }
+
+  async getHistory<T>(path: string): Promise<Revision<T>[]> {
+    const branch = this.config.branch || "main";
+    const perPage = 100;
+    const commits: Awaited<
+      ReturnType<Octokit["repos"]["listCommits"]>
+    >["data"] = [];
+
+    for (let page = 1; ; page++) {
+      const { data } = await this.retryWithBackoff(() =>
+        this.octokit.repos.listCommits({
+          owner: this.config.owner,
+          repo: this.config.repo,
+          sha: branch,
+          path,
+          per_page: perPage,
+          page,
+        })
+      );
+      commits.push(...data);
+      if (data.length < perPage) break;
+    }
+
+    return mapConcurrent(commits, HISTORY_CONCURRENCY, async (commit) => {
+      let data: T | null = null;
+      try {
+        const response = await this.retryWithBackoff(() =>
+          this.octokit.repos.getContent({
+            owner: this.config.owner,
+            repo: this.config.repo,
+            path,
+            ref: commit.sha,
+          })
+        );
+        if (!Array.isArray(response.data) && "content" in response.data) {
+          data = JSON.parse(decodeBase64(response.data.content)) as T;
+        }
+      } catch (error: any) {
+        // The commit deleted the file, so there is no content at this revision
+        if (error.status !== 404) {
+          throw error;
+        }
+      }
+
+      return {
+        sha: commit.sha,
+        author: {
+          name: commit.commit.author?.name ?? "",
+          email: commit.commit.author?.email ?? "",
+        },
+        timestamp: commit.commit.author?.date ?? "",
+        message: commit.commit.message,
+        data,
+      };
+    });
+  }
+}
+
+/** Wraps a commit failure that does not tell whether the commit was applied. */
+class AmbiguousCommitError extends Error {
+  constructor(readonly cause: unknown) {
+    super("Commit outcome unknown");
+  }
 }
@@ -0,0 +1,334 @@
+import {
+  CommitChange,
+  CommitOptions,
+  ConcurrencyError,
+  GitLabDBConfig,
+  Revision,
+} from "../core/types.js";
+import { ICacheProvider } from "./cache-provider.js";
+import {
+  decodeBase64,
+  DirectoryEntry,
+  ForgeFile,
+  ForgeStorageProvider,
+  HISTORY_CONCURRENCY,
+  mapConcurrent,
+} from "./forge-storage.js";
+import { HttpClient, HttpRequest, HttpResponse } from "./http-client.js";
+import { gitBlobSha } from "./sha1.js";
+
+interface GitLabCommit {
+  id: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  message: string;
+}
+
+interface GitLabTreeEntry {
+  id: string;
+  path: string;
+  type: "tree" | "blob" | "commit";
+}
+
+type GitLabAction = {
+  action: "create" | "update" | "delete";
+  file_path: string;
+  content?: string;
+  last_commit_id?: string;
+};
+
+/**
+ * Stores JSON files in a GitLab project through the Repository Files and
+ * Commits APIs (v4).
+ *
+ * GitLab locks on the last commit that touched a file rather than on its blob
+ * SHA, so writes first look up the file's current blob and commit, and pass
+ * that commit as `last_commit_id` so GitLab rejects the write if the file
+ * changed in between.
+ */
+export class GitLabStorageProvider extends ForgeStorageProvider {
+  protected readonly forgeName = "GitLab";
+  private http: HttpClient;
+  private readonly branch: string;
+
+  constructor(private config: GitLabDBConfig, cache?: ICacheProvider) {
+    super(config, cache);
+    const baseUrl = (config.baseUrl ?? "https://gitlab.com").replace(/\/+$/, "");
+    this.http = new HttpClient(
+      `${baseUrl}/api/v4/projects/${encodeURIComponent(String(config.projectId))}`,
+      { "PRIVATE-TOKEN": config.accessToken },
+      config.fetch
+    );
+    this.branch = config.branch || "main";
+  }
+
+  private request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    return this.retryWithBackoff(() => this.http.request<T>(request));
+  }
+
+  private filePath(path: string): string {
+    return `/repository/files/${encodeURIComponent(path)}`;
+  }
+
+  /**
+   * Reads a file's blob SHA and last commit from the response headers of a
+   * HEAD request, without downloading its content.
+   */
+  private async fileMetadata(
+    path: string,
+    ref: string = this.branch
+  ): Promise<{ blobId: string; lastCommitId: string } | undefined> {
+    try {
+      const { headers } = await this.request({
+        method: "HEAD",
+        path: this.filePath(path),
+        query: { ref },
+      });
+      return {
+        blobId: headers["x-gitlab-blob-id"],
+        lastCommitId: headers["x-gitlab-last-commit-id"],
+      };
+    } catch (error: any) {
+      if (error.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  private async createCommit(
+    actions: GitLabAction[],
+    message: string
+  ): Promise<string> {
+    const { data } = await this.request<{ id: string }>({
+      method: "POST",
+      path: "/repository/commits",
+      body: { branch: this.branch, commit_message: message, actions },
+    });
+    return data.id;
+  }
+
+  protected isConflict(error: any): boolean {
+    if (error?.status === 409) return true;
+    // GitLab reports stale `last_commit_id`s and create/create races as 400s
+    return (
+      error?.status === 400 &&
+      /changed since|already exists/i.test(error.message ?? "")
+    );
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.request({ path: "" });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  protected async pathExists(path: string, ref?: string): Promise<boolean> {
+    const dir = path.replace(/\/+$/, "");
+    if (dir === path && (await this.fileMetadata(path, ref))) {
+      return true;
+    }
+    return (await this.listTree(dir, ref, 1)).length > 0;
+  }
+
+  protected async fetchFile(
+    path: string,
+    { ref, etag }: { ref?: string; etag?: string }
+  ): Promise<ForgeFile | null> {
+    // The files API has no conditional GET; a HEAD request is the cheap check
+    if (etag) {
+      const metadata = await this.fileMetadata(path);
+      if (metadata?.blobId === etag) {
+        return null;
+      }
+    }
+
+    const { data } = await this.request<{ content: string; blob_id: string }>({
+      path: this.filePath(path),
+      query: { ref: ref ?? this.branch },
+    });
+    return { content: decodeBase64(data.content), sha: data.blob_id };
+  }
+
+  protected async fetchSha(path: string): Promise<string | undefined> {
+    return (await this.fileMetadata(path))?.blobId;
+  }
+
+  protected async putFile(
+    path: string,
+    content: string,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    const action: GitLabAction = { action: "create", file_path: path, content };
+    if (sha) {
+      const metadata = await this.fileMetadata(path);
+      if (!metadata || metadata.blobId !== sha) {
+        throw new ConcurrencyError(path);
+      }
+      action.action = "update";
+      action.last_commit_id = metadata.lastCommitId;
+    }
+
+    await this.createCommit([action], message);
+    // GitLab blob IDs are Git blob SHAs, so there is no need for another request
+    return gitBlobSha(content);
+  }
+
+  protected async removeFile(
+    path: string,
+    message: string,
+    sha: string
+  ): Promise<void> {
+    const metadata = await this.fileMetadata(path);
+    if (metadata && metadata.blobId !== sha) {
+      throw new ConcurrencyError(path);
+    }
+    await this.createCommit(
+      [
+        {
+          action: "delete",
+          file_path: path,
+          last_commit_id: metadata?.lastCommitId,
+        },
+      ],
+      message
+    );
+  }
+
+  protected async commitFiles(
+    changes: CommitChange[],
+    message: string,
+    expectedShas?: CommitOptions["expectedShas"]
+  ): Promise<{ commit: string; blobs: Map<string, string> }> {
+    const current = await this.verifyExpectedShas(
+      changes,
+      expectedShas,
+      (path) => this.fileMetadata(path),
+      (metadata) => metadata.blobId
+    );
+    const blobs = new Map<string, string>();
+    const actions = changes.map((change): GitLabAction => {
+      const metadata = current.get(change.path);
+      if (change.content === null) {
+        return {
+          action: "delete",
+          file_path: change.path,
+          last_commit_id: metadata?.lastCommitId,
+        };
+      }
+
+      const content = this.serialize(change.content);
+      blobs.set(change.path, gitBlobSha(content));
+      return metadata
+        ? {
+            action: "update",
+            file_path: change.path,
+            content,
+            last_commit_id: metadata.lastCommitId,
+          }
+        : { action: "create", file_path: change.path, content };
+    });
+
+    return { commit: await this.createCommit(actions, message), blobs };
+  }
+
+  private async listTree(
+    path: string,
+    ref: string | undefined,
+    limit = Infinity
+  ): Promise<GitLabTreeEntry[]> {
+    const perPage = Math.min(limit, 100);
+    const entries: GitLabTreeEntry[] = [];
+    try {
+      for (let page = 1; entries.length < limit; page++) {
+        const { data } = await this.request<GitLabTreeEntry[]>({
+          path: "/repository/tree",
+          query: { path, ref: ref ?? this.branch, per_page: perPage, page },
+        });
+        entries.push(...data);
+        if (data.length < perPage) break;
+      }
+    } catch (error: any) {
+      if (error.status === 404) return [];
+      throw error;
+    }
+    return entries;
+  }
+
+  async listDirectory(path: string, ref?: string): Promise<DirectoryEntry[]> {
+    const entries = await this.listTree(path.replace(/\/+$/, ""), ref);
+    return entries.map((entry) => ({
+      path: entry.path,
+      sha: entry.id,
+      type: entry.type === "tree" ? "dir" : "file",
+    }));
+  }
+
+  private async listCommits(
+    query: Record<string, string | number>
+  ): Promise<GitLabCommit[]> {
+    const { data } = await this.request<GitLabCommit[]>({
+      path: "/repository/commits",
+      query: { ref_name: this.branch, ...query },
+    });
+    return data;
+  }
+
+  async getHistory<T>(path: string): Promise<Revision<T>[]> {
+    const perPage = 100;
+    const commits: GitLabCommit[] = [];
+
+    for (let page = 1; ; page++) {
+      const data = await this.listCommits({ path, per_page: perPage, page });
+      commits.push(...data);
+      if (data.length < perPage) break;
+    }
+
+    return mapConcurrent(commits, HISTORY_CONCURRENCY, async (commit) => {
+      let data: T | null = null;
+      try {
+        const file = await this.fetchFile(path, { ref: commit.id });
+        data = JSON.parse(file!.content) as T;
+      } catch (error: any) {
+        // The commit deleted the file, so there is no content at this revision
+        if (error.status !== 404) {
+          throw error;
+        }
+      }
+
+      return {
+        sha: commit.id,
+        author: { name: commit.author_name, email: commit.author_email },
+        timestamp: commit.authored_date,
+        message: commit.message,
+        data,
+      };
+    });
+  }
+
+  async resolveRef(ref: string | Date): Promise<string> {
+    if (ref instanceof Date) {
+      const data = await this.listCommits({
+        until: ref.toISOString(),
+        per_page: 1,
+      });
+      if (data.length === 0) {
+        throw new Error(`No commit found at or before ${ref.toISOString()}`);
+      }
+      return data[0].id;
+    }
+
+    // A full commit SHA is already immutable
+    if (/^[0-9a-f]{40}$/i.test(ref)) {
+      return ref;
+    }
+
+    const { data } = await this.request<GitLabCommit>({
+      path: `/repository/commits/${encodeURIComponent(ref)}`,
+    });
+    return data.id;
+  }
+}
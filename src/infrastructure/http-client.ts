@@ -0,0 +1,84 @@
+import { HttpError } from "../core/types.js";
+
+export interface HttpRequest {
+  method?: "GET" | "HEAD" | "POST" | "PUT" | "DELETE";
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface HttpResponse<T> {
+  status: number;
+  headers: Record<string, string>;
+  data: T;
+}
+
+/**
+ * Minimal JSON client on top of `fetch`, so the forge providers work on any
+ * runtime with a global `fetch` and can be tested against stubbed responses.
+ *
+ * Non-2xx responses (including 304) are thrown as `HttpError`, which carries
+ * the status and headers the retry logic needs.
+ */
+export class HttpClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly defaultHeaders: Record<string, string>,
+    private readonly fetchImpl: typeof fetch = globalThis.fetch
+  ) {}
+
+  async request<T>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const url = new URL(`${this.baseUrl.replace(/\/+$/, "")}${request.path}`);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const headers: Record<string, string> = {
+      accept: "application/json",
+      ...this.defaultHeaders,
+      ...request.headers,
+    };
+    if (request.body !== undefined) {
+      headers["content-type"] = "application/json";
+    }
+
+    const response = await this.fetchImpl(url.toString(), {
+      method: request.method ?? "GET",
+      headers,
+      body:
+        request.body === undefined ? undefined : JSON.stringify(request.body),
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+
+    const text = request.method === "HEAD" ? "" : await response.text();
+    let data: any = undefined;
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = text;
+      }
+    }
+
+    if (!response.ok) {
+      const message =
+        (data && typeof data === "object" && (data.message ?? data.error)) ||
+        response.statusText ||
+        `HTTP ${response.status}`;
+      throw new HttpError(
+        response.status,
+        typeof message === "string" ? message : JSON.stringify(message),
+        { headers: responseHeaders, data }
+      );
+    }
+
+    return { status: response.status, headers: responseHeaders, data };
+  }
+}
@@ -0,0 +1,304 @@
+import {
+  CommitAuthor,
+  CommitChange,
+  CommitOptions,
+  ConcurrencyError,
+  IStorageProvider,
+  Revision,
+  StorageResponse,
+} from "../core/types.js";
+import { assertExpectedShas } from "./expected-shas.js";
+import { gitBlobSha, sha1Hex } from "./sha1.js";
+
+export interface InMemoryStorageOptions {
+  branch?: string;
+  author?: CommitAuthor;
+  /** Files to seed the repository with, committed as the initial commit. */
+  initialData?: Record<string, unknown>;
+  /** Clock used for commit timestamps. */
+  now?: () => Date;
+}
+
+interface MemoryCommit {
+  sha: string;
+  treeSha: string;
+  tree: Map<string, string>; // path -> blob sha
+  parent: string | null;
+  author: CommitAuthor;
+  timestamp: string;
+  message: string;
+}
+
+/**
+ * Keeps a simulated Git repository in memory: content-addressed blobs, a tree
+ * per commit, a commit graph and branch refs. Writes behave like the GitHub
+ * API, including 409-style `ConcurrencyError`s on stale SHAs.
+ *
+ * Works on any runtime, so it can serve as a test double or as ephemeral
+ * storage for preview deployments.
+ */
+export class InMemoryStorageProvider implements IStorageProvider {
+  private blobs = new Map<string, string>(); // blob sha -> serialized content
+  private commits = new Map<string, MemoryCommit>();
+  private refs = new Map<string, string>(); // "heads/main" | "tags/v1" -> commit sha
+  private readonly branch: string;
+  private readonly author: CommitAuthor;
+  private readonly now: () => Date;
+
+  constructor(options: InMemoryStorageOptions = {}) {
+    this.branch = options.branch || "main";
+    this.author = options.author || {
+      name: "gh-as-db",
+      email: "gh-as-db@localhost",
+    };
+    this.now = options.now || (() => new Date());
+
+    if (options.initialData && Object.keys(options.initialData).length > 0) {
+      this.applyCommit(
+        Object.entries(options.initialData).map(([path, content]) => ({
+          path,
+          content,
+        })),
+        "Initial commit"
+      );
+    }
+  }
+
+  private notFound(path: string): Error & { status: number } {
+    return Object.assign(new Error(`Not Found: ${path}`), { status: 404 });
+  }
+
+  private get head(): MemoryCommit | undefined {
+    const sha = this.refs.get(`heads/${this.branch}`);
+    return sha ? this.commits.get(sha) : undefined;
+  }
+
+  private treeAt(ref?: string): Map<string, string> {
+    if (!ref) {
+      return this.head?.tree ?? new Map();
+    }
+    const commit = this.commits.get(ref);
+    if (!commit) {
+      throw this.notFound(ref);
+    }
+    return commit.tree;
+  }
+
+  private hashTree(tree: Map<string, string>): string {
+    const entries = Array.from(tree.entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([path, sha]) => `100644 ${path}\0${sha}`)
+      .join("\n");
+    return sha1Hex(new TextEncoder().encode(`tree\0${entries}`));
+  }
+
+  /**
+   * Builds a new tree from the branch head, records the commit and moves the
+   * branch ref. Runs synchronously, so the ref update cannot interleave.
+   */
+  private applyCommit(changes: CommitChange[], message: string): string {
+    const parent = this.head;
+    const tree = new Map(parent?.tree);
+
+    for (const change of changes) {
+      if (change.content === null) {
+        tree.delete(change.path);
+        continue;
+      }
+      const serialized = JSON.stringify(change.content, null, 2);
+      const blobSha = gitBlobSha(serialized);
+      this.blobs.set(blobSha, serialized);
+      tree.set(change.path, blobSha);
+    }
+
+    const treeSha = this.hashTree(tree);
+    const timestamp = this.now().toISOString();
+    const sha = sha1Hex(
+      new TextEncoder().encode(
+        [
+          `commit`,
+          `tree ${treeSha}`,
+          parent ? `parent ${parent.sha}` : "",
+          `author ${this.author.name} <${this.author.email}> ${timestamp}`,
+          "",
+          message,
+        ].join("\n")
+      )
+    );
+
+    this.commits.set(sha, {
+      sha,
+      treeSha,
+      tree,
+      parent: parent?.sha ?? null,
+      author: { ...this.author },
+      timestamp,
+      message,
+    });
+    this.refs.set(`heads/${this.branch}`, sha);
+    return sha;
+  }
+
+  private readBlob<T>(blobSha: string): T {
+    return JSON.parse(this.blobs.get(blobSha)!) as T;
+  }
+
+  /**
+   * Points a lightweight tag at a commit (the branch head by default).
+   */
+  tag(name: string, ref?: string): void {
+    const sha = ref ?? this.head?.sha;
+    if (!sha || !this.commits.has(sha)) {
+      throw this.notFound(ref ?? `heads/${this.branch}`);
+    }
+    this.refs.set(`tags/${name}`, sha);
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  async exists(path: string, ref?: string): Promise<boolean> {
+    const tree = this.treeAt(ref);
+    if (tree.has(path)) {
+      return true;
+    }
+    const prefix = path.endsWith("/") ? path : `${path}/`;
+    for (const entry of tree.keys()) {
+      if (entry.startsWith(prefix)) return true;
+    }
+    return false;
+  }
+
+  async readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>> {
+    const blobSha = this.treeAt(ref).get(path);
+    if (!blobSha) {
+      throw this.notFound(path);
+    }
+    return { data: this.readBlob<T>(blobSha), sha: blobSha };
+  }
+
+  async writeJson<T>(
+    path: string,
+    content: T,
+    message: string,
+    sha?: string
+  ): Promise<string> {
+    // Like the GitHub provider, a missing SHA means "overwrite whatever is there"
+    if (sha !== undefined && this.treeAt().get(path) !== sha) {
+      throw new ConcurrencyError(path);
+    }
+    this.applyCommit([{ path, content }], message);
+    return this.treeAt().get(path)!;
+  }
+
+  async deleteFile(path: string, message: string, sha: string): Promise<void> {
+    const current = this.treeAt().get(path);
+    if (!current) {
+      throw this.notFound(path);
+    }
+    if (current !== sha) {
+      throw new ConcurrencyError(path);
+    }
+    this.applyCommit([{ path, content: null }], message);
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string
+  ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]> {
+    const dir = path.replace(/\/+$/, "");
+    const prefix = dir ? `${dir}/` : "";
+    const files: { path: string; sha: string; type: "file" | "dir" }[] = [];
+    const dirs = new Map<string, Map<string, string>>();
+
+    for (const [entry, blobSha] of this.treeAt(ref)) {
+      if (!entry.startsWith(prefix)) continue;
+      const rest = entry.slice(prefix.length);
+      const slash = rest.indexOf("/");
+      if (slash === -1) {
+        files.push({ path: entry, sha: blobSha, type: "file" });
+        continue;
+      }
+      const subdir = prefix + rest.slice(0, slash);
+      if (!dirs.has(subdir)) dirs.set(subdir, new Map());
+      dirs.get(subdir)!.set(entry, blobSha);
+    }
+
+    return [
+      ...files,
+      ...Array.from(dirs.entries()).map(([subdir, tree]) => ({
+        path: subdir,
+        sha: this.hashTree(tree),
+        type: "dir" as const,
+      })),
+    ];
+  }
+
+  async commit(
+    changes: CommitChange[],
+    message: string,
+    options: CommitOptions = {}
+  ): Promise<string> {
+    if (changes.length === 0) {
+      throw new Error("No changes to commit");
+    }
+    const tree = this.treeAt();
+    assertExpectedShas(options.expectedShas, (path) => tree.get(path));
+    return this.applyCommit(changes, message);
+  }
+
+  async getHistory<T>(path: string): Promise<Revision<T>[]> {
+    const revisions: Revision<T>[] = [];
+    let commit = this.head;
+
+    while (commit) {
+      const parent = commit.parent ? this.commits.get(commit.parent) : undefined;
+      const blobSha = commit.tree.get(path);
+      if (blobSha !== parent?.tree.get(path)) {
+        revisions.push({
+          sha: commit.sha,
+          author: { ...commit.author },
+          timestamp: commit.timestamp,
+          message: commit.message,
+          data: blobSha ? this.readBlob<T>(blobSha) : null,
+        });
+      }
+      commit = parent;
+    }
+
+    return revisions;
+  }
+
+  async resolveRef(ref: string | Date): Promise<string> {
+    if (ref instanceof Date) {
+      let commit = this.head;
+      while (commit && new Date(commit.timestamp) > ref) {
+        commit = commit.parent ? this.commits.get(commit.parent) : undefined;
+      }
+      if (!commit) {
+        throw new Error(`No commit found at or before ${ref.toISOString()}`);
+      }
+      return commit.sha;
+    }
+
+    const named =
+      this.refs.get(`heads/${ref}`) ??
+      this.refs.get(`tags/${ref}`) ??
+      this.refs.get(ref);
+    if (named) {
+      return named;
+    }
+    if (this.commits.has(ref)) {
+      return ref;
+    }
+    // Abbreviated commit SHA
+    const matches = Array.from(this.commits.keys()).filter((sha) =>
+      sha.startsWith(ref)
+    );
+    if (ref.length >= 4 && matches.length === 1) {
+      return matches[0];
+    }
+    throw this.notFound(ref);
+  }
+}
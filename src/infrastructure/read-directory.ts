@@ -0,0 +1,49 @@
+import { DirectoryFile, IStorageProvider } from "../core/types.js";
+
+/**
+ * Reads every `.json` file directly inside `path`, in one bulk request if the
+ * provider supports it and file by file otherwise.
+ */
+export async function readJsonFiles<T>(
+  storage: IStorageProvider,
+  path: string,
+  ref?: string
+): Promise<DirectoryFile<T>[]> {
+  if (storage.readDirectory) {
+    return storage.readDirectory<T>(path, ref);
+  }
+
+  const files = await (ref
+    ? storage.listDirectory(path, ref)
+    : storage.listDirectory(path));
+  return Promise.all(
+    files
+      .filter((file) => file.type === "file" && file.path.endsWith(".json"))
+      .map(async (file) => ({
+        path: file.path,
+        ...(await (ref
+          ? storage.readJson<T>(file.path, ref)
+          : storage.readJson<T>(file.path))),
+      }))
+  );
+}
+
+/**
+ * Lists every `.json` file directly inside `path` without reading them.
+ */
+export async function listJsonFiles(
+  storage: IStorageProvider,
+  path: string,
+  ref?: string
+): Promise<{ path: string; sha: string }[]> {
+  if (storage.listJsonFiles) {
+    return storage.listJsonFiles(path, ref);
+  }
+
+  const files = await (ref
+    ? storage.listDirectory(path, ref)
+    : storage.listDirectory(path));
+  return files
+    .filter((file) => file.type === "file" && file.path.endsWith(".json"))
+    .map(({ path, sha }) => ({ path, sha }));
+}
@@ -0,0 +1,193 @@
+import {
+  DirectoryFile,
+  IStorageProvider,
+  Revision,
+  StorageResponse,
+} from "../core/types.js";
+import { gitBlobSha } from "./sha1.js";
+import { readTarGz } from "./tar.js";
+
+export interface SnapshotStorageOptions {
+  /** Downloads the gzipped tarball of the repository. */
+  download: () => Promise<Uint8Array>;
+  /** The ref the archive was requested for, accepted as an alias of its commit. */
+  ref?: string;
+}
+
+/**
+ * Serves reads from a single repository archive, downloaded on first use and
+ * kept in memory. Meant for read-heavy serverless functions, where it replaces
+ * one request per file with one request per cold start.
+ *
+ * The snapshot holds a single commit and is read-only: writes and history
+ * throw, and reads at any other ref fail.
+ */
+export class SnapshotStorageProvider implements IStorageProvider {
+  private loading?: Promise<void>;
+  private files = new Map<string, Uint8Array>();
+  private parsed = new Map<string, StorageResponse<any>>();
+  // Hashed on first use rather than on load, since most files are never read
+  private shas = new Map<string, string>();
+  private commitSha = "";
+
+  constructor(private readonly options: SnapshotStorageOptions) {}
+
+  private load(): Promise<void> {
+    this.loading ??= this.download().catch((error) => {
+      // Let the next read try again
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async download(): Promise<void> {
+    const archive = await readTarGz(await this.options.download());
+    for (const file of archive.files) {
+      // Forge archives put everything in one directory, e.g. `owner-repo-1a2b3c4/`
+      const slash = file.path.indexOf("/");
+      if (slash !== -1) {
+        this.files.set(file.path.slice(slash + 1), file.content);
+      }
+    }
+    this.commitSha = archive.globalHeaders.comment ?? "";
+  }
+
+  private blobSha(path: string, content: Uint8Array): string {
+    let sha = this.shas.get(path);
+    if (!sha) {
+      sha = gitBlobSha(content);
+      this.shas.set(path, sha);
+    }
+    return sha;
+  }
+
+  private notFound(path: string): Error & { status: number } {
+    return Object.assign(new Error(`Not Found: ${path}`), { status: 404 });
+  }
+
+  private readOnly(): Error {
+    return new Error("Snapshot storage is read-only");
+  }
+
+  private assertRef(ref?: string): void {
+    if (ref && ref !== this.commitSha && ref !== this.options.ref) {
+      throw new Error(
+        `Snapshot only contains commit ${this.commitSha || this.options.ref}, not ${ref}`
+      );
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.load();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async exists(path: string, ref?: string): Promise<boolean> {
+    await this.load();
+    this.assertRef(ref);
+    if (this.files.has(path)) {
+      return true;
+    }
+    const prefix = `${path.replace(/\/+$/, "")}/`;
+    for (const file of this.files.keys()) {
+      if (file.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  async readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>> {
+    await this.load();
+    this.assertRef(ref);
+    const cached = this.parsed.get(path);
+    if (cached) {
+      return cached;
+    }
+
+    const content = this.files.get(path);
+    if (!content) {
+      throw this.notFound(path);
+    }
+    const result = {
+      data: JSON.parse(new TextDecoder().decode(content)) as T,
+      sha: this.blobSha(path, content),
+    };
+    this.parsed.set(path, result);
+    return result;
+  }
+
+  async readDirectory<T>(
+    path: string,
+    ref?: string
+  ): Promise<DirectoryFile<T>[]> {
+    const entries = await this.listDirectory(path, ref);
+    return Promise.all(
+      entries
+        .filter((entry) => entry.type === "file" && entry.path.endsWith(".json"))
+        .map(async (entry) => ({
+          path: entry.path,
+          ...(await this.readJson<T>(entry.path)),
+        }))
+    );
+  }
+
+  async listDirectory(
+    path: string,
+    ref?: string
+  ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]> {
+    await this.load();
+    this.assertRef(ref);
+    const prefix = path ? `${path.replace(/\/+$/, "")}/` : "";
+    const entries = new Map<
+      string,
+      { path: string; sha: string; type: "file" | "dir" }
+    >();
+    for (const [file, content] of this.files) {
+      if (!file.startsWith(prefix)) continue;
+      const [name, ...rest] = file.slice(prefix.length).split("/");
+      const entryPath = prefix + name;
+      if (rest.length > 0) {
+        // The archive has no tree objects, so directories have no SHA
+        entries.set(entryPath, { path: entryPath, sha: "", type: "dir" });
+      } else {
+        entries.set(entryPath, {
+          path: entryPath,
+          sha: this.blobSha(file, content),
+          type: "file",
+        });
+      }
+    }
+    return [...entries.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async writeJson(): Promise<string> {
+    throw this.readOnly();
+  }
+
+  async deleteFile(): Promise<void> {
+    throw this.readOnly();
+  }
+
+  async commit(): Promise<string> {
+    throw this.readOnly();
+  }
+
+  async getHistory<T>(): Promise<Revision<T>[]> {
+    throw new Error("History is not available in a snapshot");
+  }
+
+  async resolveRef(ref: string | Date): Promise<string> {
+    await this.load();
+    if (ref instanceof Date) {
+      throw new Error("Snapshot storage cannot resolve dates");
+    }
+    this.assertRef(ref);
+    return this.commitSha || ref;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * A minimal reader for the (gzipped) tar archives served by Git forges. Uses
+ * only web platform APIs, so it runs on edge runtimes without Node's `zlib`.
+ */
+
+export interface TarFile {
+  path: string;
+  content: Uint8Array;
+}
+
+export interface TarArchive {
+  /** Regular files, in archive order. Directories and links are skipped. */
+  files: TarFile[];
+  /**
+   * Records from pax global headers. `git archive` stores the commit SHA
+   * under `comment`.
+   */
+  globalHeaders: Record<string, string>;
+}
+
+const BLOCK = 512;
+const decoder = new TextDecoder();
+
+export async function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function readTarGz(bytes: Uint8Array): Promise<TarArchive> {
+  return parseTar(await gunzip(bytes));
+}
+
+/**
+ * Parses a ustar archive, including pax (`x`, `g`) and GNU long name (`L`)
+ * headers for paths longer than 100 bytes.
+ */
+export function parseTar(bytes: Uint8Array): TarArchive {
+  const archive: TarArchive = { files: [], globalHeaders: {} };
+  // Overrides from a pax or GNU header that apply to the next entry only
+  let nextPath: string | undefined;
+
+  let offset = 0;
+  while (offset + BLOCK <= bytes.length) {
+    const header = bytes.subarray(offset, offset + BLOCK);
+    // The archive ends with two zero blocks
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    assertChecksum(header, offset);
+
+    const size = readSize(header.subarray(124, 136));
+    const type = String.fromCharCode(header[156]);
+    const start = offset + BLOCK;
+    if (start + size > bytes.length) {
+      throw new Error(`Truncated tar archive at offset ${offset}`);
+    }
+    const content = bytes.subarray(start, start + size);
+    offset = start + Math.ceil(size / BLOCK) * BLOCK;
+
+    if (type === "x") {
+      nextPath = parsePax(content).path ?? nextPath;
+    } else if (type === "g") {
+      Object.assign(archive.globalHeaders, parsePax(content));
+    } else if (type === "L") {
+      nextPath = readString(content);
+    } else {
+      const prefix = readString(header.subarray(345, 500));
+      const name = readString(header.subarray(0, 100));
+      const path = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+      nextPath = undefined;
+      if (type === "0" || type === "\0" || type === "7") {
+        archive.files.push({ path, content });
+      }
+    }
+  }
+
+  return archive;
+}
+
+function readString(field: Uint8Array): string {
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readSize(field: Uint8Array): number {
+  // GNU base-256 encoding for sizes that do not fit in 11 octal digits
+  if (field[0] & 0x80) {
+    let size = field[0] & 0x7f;
+    for (const byte of field.subarray(1)) {
+      size = size * 256 + byte;
+    }
+    return size;
+  }
+  const octal = readString(field).trim();
+  return octal ? parseInt(octal, 8) : 0;
+}
+
+function assertChecksum(header: Uint8Array, offset: number): void {
+  const expected = parseInt(readString(header.subarray(148, 156)).trim(), 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  if (sum !== expected) {
+    throw new Error(`Invalid tar header checksum at offset ${offset}`);
+  }
+}
+
+/** Parses pax records of the form `"<length> <key>=<value>\n"`. */
+function parsePax(content: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < content.length) {
+    const space = content.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(decoder.decode(content.subarray(offset, space)), 10);
+    if (!length) break;
+    // The length counts bytes, so the record is decoded only after slicing
+    const record = decoder.decode(
+      content.subarray(space + 1, offset + length - 1)
+    );
+    const equals = record.indexOf("=");
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
@@ -1,6 +1,8 @@
 import {
   CommitChange,
+  CommitOptions,
   IStorageProvider,
+  Revision,
   StorageResponse,
 } from "../core/types.js";
 
@@ -10,6 +12,9 @@ import {
  */
 export class TransactionStorageProvider implements IStorageProvider {
   private pendingChanges = new Map<string, any>();
+  // Blob SHA of every committed path the transaction depends on, as first
+  // seen; null if it did not exist
+  private readSet = new Map<string, string | null>();
 
   constructor(private readonly baseStorage: IStorageProvider) {}
 
@@ -17,30 +22,72 @@ export class TransactionStorageProvider implements IStorageProvider {
     return this.baseStorage.testConnection();
   }
 
-  async exists(path: string): Promise<boolean> {
+  async exists(path: string, ref?: string): Promise<boolean> {
+    // Past commits cannot contain pending changes
+    if (ref) {
+      return this.baseStorage.exists(path, ref);
+    }
     if (this.pendingChanges.has(path)) {
+      return this.pendingChanges.get(path) !== null;
+    }
+
+    // A directory exists if a pending write creates a file in it...
+    const prefix = `${path.replace(/\/+$/, "")}/`;
+    const pendingInside = this.pendingUnder(prefix);
+    if (pendingInside.some(([, content]) => content !== null)) {
+      return true;
+    }
+    if (!(await this.baseStorage.exists(path))) {
+      // Only files can be checked at commit; directories are not tracked
+      if (path.endsWith(".json")) {
+        this.track(path, null);
+      }
+      return false;
+    }
+    // ...and is gone once all of its files are pending deletion
+    if (pendingInside.length === 0) {
       return true;
     }
-    return this.baseStorage.exists(path);
+    return (await this.listDirectory(prefix)).length > 0;
   }
 
-  async readJson<T>(path: string): Promise<StorageResponse<T>> {
+  async readJson<T>(path: string, ref?: string): Promise<StorageResponse<T>> {
+    if (ref) {
+      return this.baseStorage.readJson<T>(path, ref);
+    }
     const pending = this.pendingChanges.get(path);
+    if (pending === null) {
+      throw Object.assign(new Error(`Not Found: ${path}`), { status: 404 });
+    }
     if (pending !== undefined) {
       return {
         data: pending as T,
         sha: "transaction-pending-sha",
       };
     }
-    return this.baseStorage.readJson<T>(path);
+    try {
+      const response = await this.baseStorage.readJson<T>(path);
+      this.track(path, response.sha);
+      return response;
+    } catch (error: any) {
+      if (error.status === 404) {
+        this.track(path, null);
+      }
+      throw error;
+    }
   }
 
   async writeJson<T>(
     path: string,
     content: T,
     _message: string,
-    _sha?: string
+    sha?: string
   ): Promise<string> {
+    if (sha === undefined) {
+      await this.trackBase(path);
+    } else {
+      this.track(path, sha);
+    }
     this.pendingChanges.set(path, content);
     return "transaction-pending-sha";
   }
@@ -48,21 +95,101 @@ export class TransactionStorageProvider implements IStorageProvider {
   async deleteFile(
     path: string,
     _message: string,
-    _sha: string
+    sha: string
   ): Promise<void> {
+    this.track(path, sha);
     this.pendingChanges.set(path, null);
   }
 
   async listDirectory(
-    path: string
+    path: string,
+    ref?: string
   ): Promise<{ path: string; sha: string; type: "file" | "dir" }[]> {
-    // For now, we delegate to base storage.
-    // In sharded mode, we might need to merge with pending changes.
-    return this.baseStorage.listDirectory(path);
+    if (ref) {
+      return this.baseStorage.listDirectory(path, ref);
+    }
+
+    const dir = path.replace(/\/+$/, "");
+    const entries = new Map(
+      (await this.baseStorage.listDirectory(path)).map((entry) => [
+        entry.path,
+        entry,
+      ])
+    );
+
+    for (const [pendingPath, content] of this.pendingUnder(`${dir}/`)) {
+      const rest = pendingPath.slice(dir.length + 1);
+      const slash = rest.indexOf("/");
+      if (slash === -1) {
+        if (content === null) {
+          entries.delete(pendingPath);
+        } else {
+          entries.set(pendingPath, {
+            path: pendingPath,
+            sha: "transaction-pending-sha",
+            type: "file",
+          });
+        }
+      } else if (content !== null) {
+        // A pending file further down makes its subdirectory appear
+        const subdir = `${dir}/${rest.slice(0, slash)}`;
+        if (!entries.has(subdir)) {
+          entries.set(subdir, { path: subdir, sha: "", type: "dir" });
+        }
+      }
+    }
+
+    return Array.from(entries.values());
+  }
+
+  async commit(
+    changes: CommitChange[],
+    message: string,
+    options?: CommitOptions
+  ): Promise<string> {
+    return this.baseStorage.commit(changes, message, options);
   }
 
-  async commit(changes: CommitChange[], message: string): Promise<string> {
-    return this.baseStorage.commit(changes, message);
+  async getHistory<T>(path: string): Promise<Revision<T>[]> {
+    // History only covers committed data; pending changes have no commit yet.
+    return this.baseStorage.getHistory<T>(path);
+  }
+
+  async resolveRef(ref: string | Date): Promise<string> {
+    return this.baseStorage.resolveRef(ref);
+  }
+
+  // Writes carry the SHA the caller read; pending SHAs refer to this transaction
+  private track(path: string, sha: string | null | undefined): void {
+    if (
+      sha !== undefined &&
+      sha !== "transaction-pending-sha" &&
+      !this.readSet.has(path)
+    ) {
+      this.readSet.set(path, sha);
+    }
+  }
+
+  // A blind write still depends on what is committed at the path: another
+  // writer creating or changing it before our commit is a conflict
+  private async trackBase(path: string): Promise<void> {
+    if (this.readSet.has(path)) {
+      return;
+    }
+    try {
+      this.track(path, (await this.baseStorage.readJson(path)).sha);
+    } catch (error: any) {
+      if (error.status !== 404) {
+        throw error;
+      }
+      this.track(path, null);
+    }
+  }
+
+  private pendingUnder(prefix: string): [string, any][] {
+    return Array.from(this.pendingChanges.entries()).filter(([path]) =>
+      path.startsWith(prefix)
+    );
   }
 
   /**
@@ -74,4 +201,21 @@ export class TransactionStorageProvider implements IStorageProvider {
       content,
     }));
   }
+
+  /**
+   * Returns the SHA each committed path had when the transaction first read
+   * or wrote it, for `CommitOptions.expectedShas`.
+   */
+  getReadSet(): Record<string, string | null> {
+    return Object.fromEntries(this.readSet);
+  }
+
+  /**
+   * Replaces all pending changes, e.g. to go back to a savepoint.
+   */
+  setChanges(changes: CommitChange[]): void {
+    this.pendingChanges = new Map(
+      changes.map((change) => [change.path, change.content])
+    );
+  }
 }
@@ -1,7 +1,12 @@
 import enquirer from "enquirer";
 import chalk from "chalk";
+import { readdir } from "node:fs/promises";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import { Octokit } from "@octokit/rest";
 import { GitHubStorageProvider } from "../../infrastructure/github-storage.js";
+import { GitHubDB } from "../github-db.js";
+import { Migration } from "../migrations.js";
 
 export async function initCommand() {
   console.log(chalk.yellow("\n--- Database Initialization ---\n"));
@@ -134,3 +139,87 @@ export async function inspectCollectionCommand(name: string) {
     console.error(chalk.red(`Error inspecting collection: ${error.message}`));
   }
 }
+
+/**
+ * Loads the migrations in `dir`, ordered by file name (e.g. `001-add-users.js`).
+ * Each file default-exports a migration; its id defaults to the file name.
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  const files = (await readdir(dir))
+    .filter((file) => /\.m?js$/.test(file))
+    .sort();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const module = await import(pathToFileURL(resolve(dir, file)).href);
+      const migration = module.default ?? module.migration;
+      if (typeof migration?.up !== "function") {
+        throw new Error(`${file} does not export a migration with an up function`);
+      }
+      return { ...migration, id: migration.id ?? file.replace(/\.m?js$/, "") };
+    })
+  );
+}
+
+function databaseFromEnv(): GitHubDB | undefined {
+  const owner = process.env.GH_DB_OWNER;
+  const repo = process.env.GH_DB_REPO;
+  const auth = process.env.GH_DB_TOKEN;
+
+  if (!owner || !repo || !auth) {
+    console.log(
+      chalk.red(
+        "Error: Environment variables GH_DB_OWNER, GH_DB_REPO, and GH_DB_TOKEN must be set."
+      )
+    );
+    return undefined;
+  }
+
+  return new GitHubDB({ owner, repo, accessToken: auth });
+}
+
+export async function migrateUpCommand(options: { dir: string }) {
+  console.log(chalk.yellow("\n--- Running Migrations ---\n"));
+
+  const db = databaseFromEnv();
+  if (!db) return;
+
+  try {
+    const { applied } = await db.migrate(await loadMigrations(options.dir));
+    if (applied.length === 0) {
+      console.log(chalk.dim("No pending migrations."));
+    }
+    applied.forEach((id) => {
+      console.log(chalk.green(` ✔ ${id}`));
+    });
+  } catch (error: any) {
+    console.error(chalk.red(`Error running migrations: ${error.message}`));
+  }
+}
+
+export async function migrateStatusCommand(options: { dir: string }) {
+  console.log(chalk.yellow("\n--- Migration Status ---\n"));
+
+  const db = databaseFromEnv();
+  if (!db) return;
+
+  try {
+    const statuses = await db.migrationStatus(
+      await loadMigrations(options.dir)
+    );
+    if (statuses.length === 0) {
+      console.log(chalk.dim(`No migrations found in ${options.dir}.`));
+    }
+    statuses.forEach(({ id, appliedAt }) => {
+      console.log(
+        appliedAt
+          ? chalk.green(` ✔ ${id} ${chalk.dim(`(applied ${appliedAt})`)}`)
+          : chalk.cyan(` • ${id} (pending)`)
+      );
+    });
+  } catch (error: any) {
+    console.error(
+      chalk.red(`Error reading migration status: ${error.message}`)
+    );
+  }
+}
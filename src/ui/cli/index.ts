@@ -6,6 +6,8 @@ import {
   initCommand,
   listCollectionsCommand,
   inspectCollectionCommand,
+  migrateUpCommand,
+  migrateStatusCommand,
 } from "./commands.js";
 
 const program = new Command();
@@ -40,4 +42,20 @@ program
   .description("Inspect the contents of a collection")
   .action(inspectCollectionCommand);
 
+const migrate = program
+  .command("migrate")
+  .description("Apply or inspect schema migrations");
+
+migrate
+  .command("up")
+  .description("Apply all pending migrations")
+  .option("-d, --dir <dir>", "Directory containing migration files", "migrations")
+  .action(migrateUpCommand);
+
+migrate
+  .command("status")
+  .description("Show which migrations have been applied")
+  .option("-d, --dir <dir>", "Directory containing migration files", "migrations")
+  .action(migrateStatusCommand);
+
 program.parse();
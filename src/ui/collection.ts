@@ -1,14 +1,54 @@
 import {
+  CollectionOptions,
   ConcurrencyError,
+  Conflict,
+  ConflictResolver,
+  ConflictRetryOptions,
+  FieldBlame,
   IStorageProvider,
   Middleware,
   MiddlewareContext,
+  Page,
+  PaginationOptions,
   QueryOptions,
+  ReadOptions,
+  RelationDefinition,
+  Revision,
   Schema,
+  SortOptions,
   StorageStrategy,
+  StrategyConversion,
   Validator,
 } from "../core/types.js";
 import { Indexer } from "../core/indexer.js";
+import { filterCandidates, matchesFilter } from "../core/filter.js";
+import { compareBy, compareSortValues, sortValues } from "../core/sort.js";
+import { decodeCursor, encodeCursor } from "../core/cursor.js";
+import {
+  assertBucketCount,
+  bucketName,
+  DEFAULT_BUCKETS,
+} from "../core/buckets.js";
+import { TransactionStorageProvider } from "../infrastructure/transaction-storage.js";
+import { listJsonFiles, readJsonFiles } from "../infrastructure/read-directory.js";
+import { BLOB_CONCURRENCY, mapConcurrent } from "../infrastructure/forge-storage.js";
+import { convertCollectionStrategy } from "./strategy.js";
+
+/**
+ * Looks up the collection a relation points to. `options` holds the layout
+ * the relation declares, for targets that are not registered.
+ */
+export type CollectionResolver = (
+  name: string,
+  options: Pick<CollectionOptions<any>, "strategy" | "buckets">
+) => Collection<any>;
+
+/**
+ * The write an operation attempted, kept for resolving a conflict.
+ */
+type PendingWrite<T> = Pick<Conflict<T>, "base" | "local">;
+
+const DEFAULT_RESOLVE_ATTEMPTS = 3;
 
 export class Collection<T extends Schema> {
   private lastSha: string | undefined;
@@ -18,37 +58,48 @@ export class Collection<T extends Schema> {
   private middleware: Middleware<T>[];
   private validator?: Validator<T>;
   private strategy: StorageStrategy;
-  private shas = new Map<string, string>(); // path -> sha for sharded mode
+  private buckets = DEFAULT_BUCKETS;
+  private shas = new Map<string, string>(); // path -> sha for sharded and bucketed mode
+  private relations: Record<string, RelationDefinition>;
+  private retryOnConflict?: ConflictRetryOptions;
+  private conflictResolver?: ConflictResolver<T>;
 
   constructor(
     public readonly name: string,
     private readonly storage: IStorageProvider,
-    middlewareOrOptions?:
-      | Middleware<T>[]
-      | {
-          middleware?: Middleware<T>[];
-          validator?: Validator<T>;
-          strategy?: StorageStrategy;
-        }
+    middlewareOrOptions?: Middleware<T>[] | CollectionOptions<T>,
+    private readonly resolveCollection: CollectionResolver = (name, options) =>
+      new Collection(name, storage, options)
   ) {
     if (Array.isArray(middlewareOrOptions)) {
       this.middleware = middlewareOrOptions;
       this.strategy = "single-file";
+      this.relations = {};
     } else {
       this.middleware = middlewareOrOptions?.middleware || [];
       this.validator = middlewareOrOptions?.validator;
       this.strategy = middlewareOrOptions?.strategy || "single-file";
+      this.buckets = middlewareOrOptions?.buckets ?? DEFAULT_BUCKETS;
+      assertBucketCount(this.buckets);
+      this.relations = middlewareOrOptions?.relations || {};
+      this.retryOnConflict = middlewareOrOptions?.retryOnConflict;
+      this.conflictResolver = middlewareOrOptions?.conflictResolver;
     }
   }
 
   private get path(): string {
-    return this.strategy === "sharded" ? `${this.name}/` : `${this.name}.json`;
+    return this.strategy === "single-file" ? `${this.name}.json` : `${this.name}/`;
   }
 
   private getItemPath(id: string): string {
-    return this.strategy === "sharded"
-      ? `${this.name}/${id}.json`
-      : `${this.name}.json`;
+    switch (this.strategy) {
+      case "sharded":
+        return `${this.name}/${id}.json`;
+      case "bucketed":
+        return `${this.name}/${bucketName(id, this.buckets)}.json`;
+      default:
+        return `${this.name}.json`;
+    }
   }
 
   async create(item: T): Promise<T> {
@@ -71,15 +122,53 @@ export class Collection<T extends Schema> {
       }
     }
 
+    return this.withConflictRetry(
+      () => this.insert(finalItem),
+      async () =>
+        this.requireResolved(
+          finalItem.id,
+          await this.resolveConflict(finalItem.id, {
+            base: null,
+            local: finalItem,
+          })
+        )
+    );
+  }
+
+  private async insert(finalItem: T): Promise<T> {
+    if (this.strategy === "bucketed") {
+      const bucketPath = this.getItemPath(finalItem.id);
+      const bucket = await this.readBucket(bucketPath);
+      bucket.push(finalItem);
+      await this.writeBucket(
+        bucketPath,
+        bucket,
+        `Create item ${finalItem.id} in ${this.name}`
+      );
+
+      if (this.dataLoaded) {
+        this.items = [...this.items, finalItem];
+        this.indexer.add(finalItem);
+      }
+      return finalItem;
+    }
+
     if (this.strategy === "sharded") {
       const itemPath = this.getItemPath(finalItem.id);
-      const sha = await this.storage.writeJson(
-        itemPath,
-        finalItem,
-        `Create item ${finalItem.id} in ${this.name}`,
-        this.shas.get(itemPath)
-      );
-      this.shas.set(itemPath, sha);
+      try {
+        const sha = await this.storage.writeJson(
+          itemPath,
+          finalItem,
+          `Create item ${finalItem.id} in ${this.name}`,
+          this.shas.get(itemPath)
+        );
+        this.shas.set(itemPath, sha);
+      } catch (error) {
+        if (error instanceof ConcurrencyError) {
+          this.discardLoadedState(itemPath);
+        }
+        throw error;
+      }
 
       if (this.dataLoaded) {
         const index = this.items.findIndex((i: any) => i.id === finalItem.id);
@@ -100,7 +189,8 @@ export class Collection<T extends Schema> {
       try {
         if (await this.storage.exists(this.path)) {
           const response = await this.storage.readJson<T[]>(this.path);
-          items = response.data;
+          // Copied, since providers may return their cached array
+          items = [...response.data];
           this.lastSha = response.sha;
         }
       } catch (error) {
@@ -118,7 +208,7 @@ export class Collection<T extends Schema> {
       );
     } catch (error) {
       if (error instanceof ConcurrencyError) {
-        this.dataLoaded = false;
+        this.discardLoadedState(this.path);
       }
       throw error;
     }
@@ -133,8 +223,139 @@ export class Collection<T extends Schema> {
   }
 
   async find(
+    query: QueryOptions<T> & {
+      pagination: PaginationOptions & { cursor: string | null };
+    }
+  ): Promise<Page<T>>;
+  async find(
+    queryOrPredicate?:
+      | ((item: T) => boolean)
+      | (QueryOptions<T> & {
+          pagination?: PaginationOptions & { cursor?: undefined };
+        })
+  ): Promise<T[]>;
+  // The cursor is only known at runtime, so either result is possible
+  async find(query: QueryOptions<T>): Promise<T[] | Page<T>>;
+  async find(
+    queryOrPredicate?: ((item: T) => boolean) | QueryOptions<T>
+  ): Promise<T[] | Page<T>> {
+    if (
+      typeof queryOrPredicate !== "function" &&
+      queryOrPredicate?.pagination?.cursor !== undefined
+    ) {
+      return this.findPage(queryOrPredicate);
+    }
+
+    const items = await this.findItems(queryOrPredicate);
+    if (typeof queryOrPredicate === "function" || !queryOrPredicate?.populate) {
+      return items;
+    }
+    return this.populate(items, queryOrPredicate.populate, queryOrPredicate.asOf);
+  }
+
+  /**
+   * Keyset pagination: returns the items after the cursor's position in the
+   * sort order, so inserts and deletes elsewhere never shift a page. `id` is
+   * appended as the last sort key to make the order total.
+   */
+  private async findPage(query: QueryOptions<T>): Promise<Page<T>> {
+    const { limit, offset, cursor } = query.pagination!;
+    if (offset) {
+      throw new Error("pagination.offset cannot be combined with a cursor");
+    }
+    // An empty page would end the iteration with a null cursor
+    if (limit !== undefined && !(limit > 0)) {
+      throw new Error("pagination.limit must be positive when using a cursor");
+    }
+    const sort: SortOptions<T>[] = [...(query.sort ?? [])];
+    if (sort[sort.length - 1]?.field !== "id") {
+      sort.push({ field: "id" as SortOptions<T>["field"], order: "asc" });
+    }
+    const after = cursor ? decodeCursor(cursor, sort) : null;
+    const compare = compareSortValues(sort);
+
+    let remaining: T[];
+    if (this.canPageShards(query, sort)) {
+      remaining = await this.readShardsAfter(query, sort, after, limit);
+    } else {
+      const items = await this.findItems({
+        ...query,
+        sort,
+        pagination: undefined,
+      });
+      remaining = after
+        ? items.filter((item) => compare(sortValues(item, sort), after) > 0)
+        : items;
+    }
+
+    const page = limit !== undefined ? remaining.slice(0, limit) : remaining;
+    const last = page[page.length - 1];
+    return {
+      items: query.populate
+        ? await this.populate(page, query.populate, query.asOf)
+        : page,
+      nextCursor:
+        remaining.length > page.length && last
+          ? encodeCursor(sort, sortValues(last, sort))
+          : null,
+    };
+  }
+
+  // Shards are named after their id, so pages in id order can be found from
+  // the directory listing without reading every file
+  private canPageShards(query: QueryOptions<T>, sort: SortOptions<T>[]): boolean {
+    return (
+      this.strategy === "sharded" &&
+      !this.dataLoaded &&
+      !query.asOf &&
+      sort.length === 1
+    );
+  }
+
+  /**
+   * Reads shards in id order, starting after `after`, until `limit` + 1
+   * matches are found (one more than a page, to know whether another follows).
+   */
+  private async readShardsAfter(
+    query: QueryOptions<T>,
+    sort: SortOptions<T>[],
+    after: unknown[] | null,
+    limit?: number
+  ): Promise<T[]> {
+    const compare = compareSortValues(sort);
+    const ids = (await listJsonFiles(this.storage, this.name))
+      .map((f) => f.path.slice(this.name.length + 1, -".json".length))
+      .filter((id) => !after || compare([id], after) > 0)
+      .sort((a, b) => compare([a], [b]));
+
+    const matches: T[] = [];
+    let next = 0;
+    while (next < ids.length && (limit === undefined || matches.length <= limit)) {
+      const batch = ids.slice(
+        next,
+        next + (limit === undefined ? ids.length : limit + 1 - matches.length)
+      );
+      next += batch.length;
+      for (const item of await mapConcurrent(batch, BLOB_CONCURRENCY, (id) =>
+        this.findItemById(id)
+      )) {
+        if (item && (query.filters ?? []).every((f) => matchesFilter(item, f))) {
+          matches.push(item);
+        }
+      }
+    }
+    return matches;
+  }
+
+  private async findItems(
     queryOrPredicate?: ((item: T) => boolean) | QueryOptions<T>
   ): Promise<T[]> {
+    if (typeof queryOrPredicate !== "function" && queryOrPredicate?.asOf) {
+      const ref = await this.storage.resolveRef(queryOrPredicate.asOf);
+      const items = await this.loadSnapshot(ref);
+      return this.applyQueryOptions(items, queryOrPredicate);
+    }
+
     if (!(await this.storage.exists(this.path))) {
       return [];
     }
@@ -147,42 +368,43 @@ export class Collection<T extends Schema> {
 
     // Use cached/indexed data if available
     if (this.dataLoaded) {
-      // If it's an 'eq' filter we can potentially use index directly
-      if (
-        typeof queryOrPredicate !== "function" &&
-        queryOrPredicate?.filters &&
-        queryOrPredicate.filters.length === 1 &&
-        queryOrPredicate.filters[0].operator === "eq" &&
-        this.indexer.hasIndex(queryOrPredicate.filters[0].field)
-      ) {
-        const filter = queryOrPredicate.filters[0];
-        const results = this.indexer.query(filter.field, filter.value);
-        if (results !== null) {
-          return results;
-        }
-      }
-
-      // Fallback to full scan of current in-memory items
       if (typeof queryOrPredicate === "function") {
         return this.items.filter(queryOrPredicate);
       }
       if (queryOrPredicate) {
-        return this.applyQueryOptions(this.items, queryOrPredicate);
+        // Only scan the items the indexes leave, or all of them as a fallback
+        const candidates = queryOrPredicate.filters?.length
+          ? filterCandidates({ and: queryOrPredicate.filters }, (field, value) => {
+              // Nested paths are indexed the first time they are queried
+              if (!this.indexer.hasIndex(field)) {
+                this.indexer.addIndex(this.items, field);
+              }
+              return this.indexer.query(field, value);
+            })
+          : null;
+        // Indexes return candidates in their own order; results keep the
+        // stored order, as they do on a cold load
+        const matched = candidates ? new Set(candidates) : null;
+        return this.applyQueryOptions(
+          matched ? this.items.filter((item) => matched.has(item)) : this.items,
+          queryOrPredicate
+        );
       }
       return this.items;
     }
 
     if (this.strategy === "sharded") {
-      const files = await this.storage.listDirectory(this.name);
-      items = await Promise.all(
-        files
-          .filter((f) => f.type === "file" && f.path.endsWith(".json"))
-          .map(async (file) => {
-            const response = await this.storage.readJson<T>(file.path);
-            this.shas.set(file.path, response.sha);
-            return response.data;
-          })
-      );
+      const files = await readJsonFiles<T>(this.storage, this.name);
+      items = files.map((file) => {
+        this.shas.set(file.path, file.sha);
+        return file.data;
+      });
+    } else if (this.strategy === "bucketed") {
+      const files = await readJsonFiles<T[]>(this.storage, this.name);
+      items = files.flatMap((file) => {
+        this.shas.set(file.path, file.sha);
+        return file.data;
+      });
     } else {
       const response = await this.storage.readJson<T[]>(this.path);
       this.lastSha = response.sha;
@@ -206,7 +428,7 @@ export class Collection<T extends Schema> {
       this.items = items;
       this.indexer.build(
         items,
-        items.length > 0 ? (Object.keys(items[0]) as (keyof T)[]) : []
+        items.length > 0 ? Object.keys(items[0]) : []
       );
       this.dataLoaded = true;
     }
@@ -228,48 +450,13 @@ export class Collection<T extends Schema> {
     // Apply filters
     if (options.filters) {
       for (const filter of options.filters) {
-        result = result.filter((item) => {
-          const val = item[filter.field];
-          switch (filter.operator) {
-            case "eq":
-              return val === filter.value;
-            case "neq":
-              return val !== filter.value;
-            case "gt":
-              return val > filter.value;
-            case "gte":
-              return val >= filter.value;
-            case "lt":
-              return val < filter.value;
-            case "lte":
-              return val <= filter.value;
-            case "contains":
-              if (Array.isArray(val)) {
-                return val.includes(filter.value);
-              }
-              return (
-                typeof val === "string" && val.includes(filter.value as string)
-              );
-            case "in":
-              return Array.isArray(filter.value) && filter.value.includes(val);
-            default:
-              return true;
-          }
-        });
+        result = result.filter((item) => matchesFilter(item, filter));
       }
     }
 
     // Apply sorting
-    if (options.sort) {
-      for (const sort of options.sort) {
-        result.sort((a, b) => {
-          const aVal = a[sort.field];
-          const bVal = b[sort.field];
-          if (aVal < bVal) return sort.order === "asc" ? -1 : 1;
-          if (aVal > bVal) return sort.order === "asc" ? 1 : -1;
-          return 0;
-        });
-      }
+    if (options.sort?.length) {
+      result.sort(compareBy(options.sort));
     }
 
     // Apply pagination
@@ -281,12 +468,34 @@ export class Collection<T extends Schema> {
     return result;
   }
 
-  async findById(id: string): Promise<T | null> {
-    if (this.dataLoaded && this.indexer.hasIndex("id" as keyof T)) {
-      const results = this.indexer.query("id" as keyof T, id);
+  async findById(id: string, options: ReadOptions = {}): Promise<T | null> {
+    const item = options.asOf
+      ? await this.findByIdAsOf(id, options.asOf)
+      : await this.findItemById(id);
+    if (!item || !options.populate) {
+      return item;
+    }
+    const [populated] = await this.populate(
+      [item],
+      options.populate,
+      options.asOf
+    );
+    return populated;
+  }
+
+  private async findItemById(id: string): Promise<T | null> {
+    if (this.dataLoaded && this.indexer.hasIndex("id")) {
+      const results = this.indexer.query("id", id);
       return results && results.length > 0 ? results[0] : null;
     }
 
+    if (this.strategy === "bucketed") {
+      const item = (await this.readBucket(this.getItemPath(id))).find(
+        (i: any) => i.id === id
+      );
+      return item ? this.applyAfterRead(item) : null;
+    }
+
     if (this.strategy === "sharded") {
       try {
         const itemPath = this.getItemPath(id);
@@ -318,15 +527,163 @@ export class Collection<T extends Schema> {
     return items.find((item: any) => item.id === id) || null;
   }
 
+  /**
+   * Resolves the given relations on copies of `items`. Each related collection
+   * is loaded once for the whole batch.
+   */
+  private async populate(
+    items: T[],
+    relationNames: string[],
+    asOf?: string | Date
+  ): Promise<T[]> {
+    const result: Record<string, any>[] = items.map((item) => ({ ...item }));
+
+    for (const relationName of relationNames) {
+      const relation = this.relations[relationName];
+      if (!relation) {
+        throw new Error(`Unknown relation ${relationName} on ${this.name}`);
+      }
+      if (!relation.localField === !relation.foreignField) {
+        throw new Error(
+          `Relation ${relationName} on ${this.name} must define exactly one of localField or foreignField`
+        );
+      }
+
+      const target = this.resolveCollection(relation.collection, {
+        strategy: relation.strategy,
+        buckets: relation.buckets,
+      });
+      const related = await target.find(asOf ? { asOf } : undefined);
+
+      if (relation.foreignField) {
+        const foreignField = relation.foreignField;
+        const byForeignKey = new Map<unknown, Schema[]>();
+        for (const doc of related) {
+          const key = doc[foreignField];
+          if (!byForeignKey.has(key)) {
+            byForeignKey.set(key, []);
+          }
+          byForeignKey.get(key)!.push(doc);
+        }
+        for (const item of result) {
+          const matches = byForeignKey.get(item.id) ?? [];
+          item[relationName] =
+            relation.type === "one-to-one" ? matches[0] ?? null : matches;
+        }
+        continue;
+      }
+
+      const localField = relation.localField!;
+      const byId = new Map<unknown, Schema>(
+        related.map((doc) => [doc.id, doc])
+      );
+      for (const item of result) {
+        const ref = item[localField];
+        if (relation.type === "one-to-one") {
+          item[relationName] = byId.get(ref) ?? null;
+        } else {
+          item[relationName] = (Array.isArray(ref) ? ref : [])
+            .map((id) => byId.get(id))
+            .filter((doc) => doc !== undefined);
+        }
+      }
+    }
+
+    return result as T[];
+  }
+
+  private async findByIdAsOf(
+    id: string,
+    asOf: string | Date
+  ): Promise<T | null> {
+    const ref = await this.storage.resolveRef(asOf);
+
+    if (this.strategy === "sharded") {
+      try {
+        const response = await this.storage.readJson<T>(
+          this.getItemPath(id),
+          ref
+        );
+        return this.applyAfterRead(response.data);
+      } catch (error: any) {
+        if (error.status === 404) return null;
+        throw error;
+      }
+    }
+
+    if (this.strategy === "bucketed") {
+      try {
+        const response = await this.storage.readJson<T[]>(
+          this.getItemPath(id),
+          ref
+        );
+        const item = response.data.find((i: any) => i.id === id);
+        return item ? this.applyAfterRead(item) : null;
+      } catch (error: any) {
+        if (error.status === 404) return null;
+        throw error;
+      }
+    }
+
+    const items = await this.loadSnapshot(ref);
+    return items.find((item: any) => item.id === id) || null;
+  }
+
+  /**
+   * Loads all items as they were at the given commit. Snapshots are read-only:
+   * they never touch the in-memory items, index or tracked SHAs.
+   */
+  private async loadSnapshot(ref: string): Promise<T[]> {
+    if (!(await this.storage.exists(this.path, ref))) {
+      return [];
+    }
+
+    let items: T[];
+    if (this.strategy === "sharded") {
+      const files = await readJsonFiles<T>(this.storage, this.name, ref);
+      items = files.map((file) => file.data);
+    } else if (this.strategy === "bucketed") {
+      const files = await readJsonFiles<T[]>(this.storage, this.name, ref);
+      items = files.flatMap((file) => file.data);
+    } else {
+      const response = await this.storage.readJson<T[]>(this.path, ref);
+      items = response.data;
+    }
+
+    return Promise.all(items.map((item) => this.applyAfterRead(item)));
+  }
+
   async update(id: string, updates: Partial<T>): Promise<T> {
-    const items = await this.find();
+    const pending: PendingWrite<T> = { base: null, local: null };
+    return this.withConflictRetry(
+      () => this.applyUpdate(id, updates, pending),
+      async () =>
+        this.requireResolved(id, await this.resolveConflict(id, pending))
+    );
+  }
+
+  /**
+   * @param pending Receives the document before and after the update.
+   * @param replace Stores `updates` as the whole document instead of merging.
+   */
+  private async applyUpdate(
+    id: string,
+    updates: Partial<T>,
+    pending?: PendingWrite<T>,
+    replace = false
+  ): Promise<T> {
+    const items = await this.itemsAround(id);
     const index = items.findIndex((item: any) => item.id === id);
     if (index === -1) {
       throw new Error(`Item with id ${id} not found in ${this.name}`);
     }
 
     const originalItem = items[index];
-    items[index] = { ...items[index], ...updates };
+    items[index] = replace ? (updates as T) : { ...items[index], ...updates };
+    if (pending) {
+      pending.base = originalItem;
+      pending.local = items[index];
+    }
 
     let finalItem = items[index];
 
@@ -348,7 +705,14 @@ export class Collection<T extends Schema> {
     }
     items[index] = finalItem;
 
-    if (this.strategy === "sharded") {
+    if (this.strategy === "bucketed") {
+      const bucketPath = this.getItemPath(id);
+      await this.writeBucket(
+        bucketPath,
+        this.inBucket(items, bucketPath),
+        `Update item ${id} in ${this.name}`
+      );
+    } else if (this.strategy === "sharded") {
       const itemPath = this.getItemPath(id);
       try {
         const sha = await this.storage.writeJson(
@@ -360,7 +724,7 @@ export class Collection<T extends Schema> {
         this.shas.set(itemPath, sha);
       } catch (error) {
         if (error instanceof ConcurrencyError) {
-          this.dataLoaded = false;
+          this.discardLoadedState(itemPath);
         }
         throw error;
       }
@@ -374,7 +738,7 @@ export class Collection<T extends Schema> {
         );
       } catch (error) {
         if (error instanceof ConcurrencyError) {
-          this.dataLoaded = false;
+          this.discardLoadedState(this.path);
         }
         throw error;
       }
@@ -389,32 +753,59 @@ export class Collection<T extends Schema> {
   }
 
   async delete(id: string): Promise<void> {
-    const items = await this.find();
+    const pending: PendingWrite<T> = { base: null, local: null };
+    await this.withConflictRetry(
+      () => this.remove(id, pending),
+      async () => {
+        await this.resolveConflict(id, pending);
+      }
+    );
+  }
+
+  private async remove(id: string, pending?: PendingWrite<T>): Promise<void> {
+    const items = await this.itemsAround(id);
     const index = items.findIndex((item: any) => item.id === id);
     if (index === -1) {
       return;
     }
 
     const itemToDelete = items[index];
+    if (pending) {
+      pending.base = itemToDelete;
+    }
     const filtered = items.filter((_, i) => i !== index);
 
-    if (this.strategy === "sharded") {
+    if (this.strategy === "bucketed") {
+      const bucketPath = this.getItemPath(id);
+      await this.writeBucket(
+        bucketPath,
+        this.inBucket(filtered, bucketPath),
+        `Delete item ${id} from ${this.name}`
+      );
+    } else if (this.strategy === "sharded") {
       const itemPath = this.getItemPath(id);
       const sha = this.shas.get(itemPath);
-      if (!sha) {
-        // We need the SHA to delete. If we don't have it, we must fetch it.
-        const response = await this.storage.readJson(itemPath);
-        await this.storage.deleteFile(
-          itemPath,
-          `Delete item ${id} from ${this.name}`,
-          response.sha
-        );
-      } else {
-        await this.storage.deleteFile(
-          itemPath,
-          `Delete item ${id} from ${this.name}`,
-          sha
-        );
+      try {
+        if (!sha) {
+          // We need the SHA to delete. If we don't have it, we must fetch it.
+          const response = await this.storage.readJson(itemPath);
+          await this.storage.deleteFile(
+            itemPath,
+            `Delete item ${id} from ${this.name}`,
+            response.sha
+          );
+        } else {
+          await this.storage.deleteFile(
+            itemPath,
+            `Delete item ${id} from ${this.name}`,
+            sha
+          );
+        }
+      } catch (error) {
+        if (error instanceof ConcurrencyError) {
+          this.discardLoadedState(itemPath);
+        }
+        throw error;
       }
       this.shas.delete(itemPath);
     } else {
@@ -427,7 +818,7 @@ export class Collection<T extends Schema> {
         );
       } catch (error) {
         if (error instanceof ConcurrencyError) {
-          this.dataLoaded = false;
+          this.discardLoadedState(this.path);
         }
         throw error;
       }
@@ -438,4 +829,332 @@ export class Collection<T extends Schema> {
       this.indexer.remove(itemToDelete);
     }
   }
+
+  /**
+   * Rewrites the collection into the other storage strategy in a single
+   * commit, then switches this instance to it. Other instances of the
+   * collection must be created again with the new strategy.
+   * With `dryRun`, only reports which files would be written and removed.
+   * Not available inside a transaction, whose rollback could not undo the
+   * switch; use `strategyMigration` to convert as part of a migration.
+   */
+  async convertStrategy(
+    target: StorageStrategy,
+    options: { dryRun?: boolean } = {}
+  ): Promise<StrategyConversion> {
+    if (!options.dryRun && this.storage instanceof TransactionStorageProvider) {
+      throw new Error(
+        `Cannot convert ${this.name} inside a transaction; use strategyMigration instead`
+      );
+    }
+    const from = this.strategy;
+    // Buffers the rewrite, so it can be inspected and committed at once
+    const staging = new TransactionStorageProvider(this.storage);
+    const documents = await convertCollectionStrategy(
+      staging,
+      this.name,
+      from,
+      target,
+      this.buckets
+    );
+    const changes = staging.getChanges();
+    const summary: StrategyConversion = {
+      from,
+      to: target,
+      documents,
+      written: changes.filter((c) => c.content !== null).map((c) => c.path),
+      deleted: changes.filter((c) => c.content === null).map((c) => c.path),
+      commit: null,
+    };
+    if (options.dryRun) {
+      return summary;
+    }
+
+    if (changes.length > 0) {
+      summary.commit = await this.storage.commit(
+        changes,
+        `Convert ${this.name} from ${from} to ${target}`,
+        { expectedShas: staging.getReadSet() }
+      );
+    }
+    this.strategy = target;
+    this.invalidate();
+    return summary;
+  }
+
+  /**
+   * Drops all data loaded from storage, so the next operation reads it again.
+   */
+  invalidate(): void {
+    this.items = [];
+    this.dataLoaded = false;
+    this.lastSha = undefined;
+    this.shas.clear();
+  }
+
+  /**
+   * Returns the versions of a single document, newest first.
+   * For single-file collections the collection file's history is diffed so
+   * only commits that changed this document are included.
+   */
+  async history(id: string): Promise<Revision<T>[]> {
+    if (this.strategy === "sharded") {
+      const revisions = await this.storage.getHistory<T>(this.getItemPath(id));
+      return Promise.all(
+        revisions.map(async (revision) => ({
+          ...revision,
+          data: revision.data && (await this.applyAfterRead(revision.data)),
+        }))
+      );
+    }
+
+    // Bucket files hold several documents, like the single collection file
+    const revisions = await this.storage.getHistory<T[]>(
+      this.strategy === "bucketed" ? this.getItemPath(id) : this.path
+    );
+    const result: Revision<T>[] = [];
+    // The document did not exist before the first revision
+    let previous = JSON.stringify(null);
+
+    // Walk oldest to newest so each version is compared with the one before it
+    for (const revision of [...revisions].reverse()) {
+      const item = revision.data?.find((i: any) => i.id === id) ?? null;
+      const serialized = JSON.stringify(item);
+      if (serialized === previous) {
+        continue;
+      }
+      previous = serialized;
+      result.push({
+        ...revision,
+        data: item && (await this.applyAfterRead(item)),
+      });
+    }
+
+    return result.reverse();
+  }
+
+  /**
+   * Returns the versions of the whole collection file, newest first.
+   * Only supported for single-file collections; use `history(id)` for sharded
+   * and bucketed ones.
+   */
+  async collectionHistory(): Promise<Revision<T[]>[]> {
+    if (this.strategy !== "single-file") {
+      throw new Error(
+        `collectionHistory() is not supported for ${this.strategy} collection ${this.name}. Use history(id) instead.`
+      );
+    }
+
+    const revisions = await this.storage.getHistory<T[]>(this.path);
+    return Promise.all(
+      revisions.map(async (revision) => ({
+        ...revision,
+        data:
+          revision.data &&
+          (await Promise.all(
+            revision.data.map((item) => this.applyAfterRead(item))
+          )),
+      }))
+    );
+  }
+
+  /**
+   * Returns, for each top-level field of the current document, the commit,
+   * author and date that last changed its value. Returns null if the document
+   * does not exist.
+   */
+  async blame(id: string): Promise<FieldBlame<T> | null> {
+    const revisions = await this.history(id);
+    if (revisions.length === 0 || revisions[0].data === null) {
+      return null;
+    }
+
+    const blame: FieldBlame<T> = {};
+    let previous: Partial<T> = {};
+
+    for (const revision of [...revisions].reverse()) {
+      const current: Partial<T> = revision.data ?? {};
+      const { data: _data, ...commit } = revision;
+
+      for (const field of Object.keys(current) as (keyof T)[]) {
+        if (
+          !(field in previous) ||
+          JSON.stringify(current[field]) !== JSON.stringify(previous[field])
+        ) {
+          blame[field] = commit;
+        }
+      }
+      previous = current;
+    }
+
+    // Only report fields that still exist on the document
+    for (const field of Object.keys(blame) as (keyof T)[]) {
+      if (!(field in previous)) {
+        delete blame[field];
+      }
+    }
+
+    return blame;
+  }
+
+  /**
+   * Returns a copy of the documents in a bucket file, from memory if the
+   * collection is loaded. Tracks the bucket's SHA for the next write.
+   */
+  private async readBucket(bucketPath: string): Promise<T[]> {
+    if (this.dataLoaded) {
+      return this.inBucket(this.items, bucketPath);
+    }
+    try {
+      const response = await this.storage.readJson<T[]>(bucketPath);
+      this.shas.set(bucketPath, response.sha);
+      return [...response.data];
+    } catch (error: any) {
+      if (error.status === 404) {
+        this.shas.delete(bucketPath);
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The documents a write to `id` has to rewrite: its bucket in a bucketed
+   * collection that is not loaded yet, or else the whole collection.
+   */
+  private async itemsAround(id: string): Promise<T[]> {
+    if (this.strategy !== "bucketed" || this.dataLoaded) {
+      return this.find();
+    }
+    const bucket = await this.readBucket(this.getItemPath(id));
+    return Promise.all(bucket.map((item) => this.applyAfterRead(item)));
+  }
+
+  private inBucket(items: T[], bucketPath: string): T[] {
+    return items.filter((item) => this.getItemPath(item.id) === bucketPath);
+  }
+
+  /**
+   * Writes a bucket file, or deletes it once its last document is removed.
+   */
+  private async writeBucket(
+    bucketPath: string,
+    bucket: T[],
+    message: string
+  ): Promise<void> {
+    try {
+      if (bucket.length > 0) {
+        const sha = await this.storage.writeJson(
+          bucketPath,
+          bucket,
+          message,
+          this.shas.get(bucketPath)
+        );
+        this.shas.set(bucketPath, sha);
+        return;
+      }
+      const sha =
+        this.shas.get(bucketPath) ??
+        (await this.storage.readJson(bucketPath)).sha;
+      await this.storage.deleteFile(bucketPath, message, sha);
+      this.shas.delete(bucketPath);
+    } catch (error) {
+      if (error instanceof ConcurrencyError) {
+        this.discardLoadedState(bucketPath);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forgets what was read from `path`, so the next operation starts from the
+   * latest remote state.
+   */
+  private discardLoadedState(path: string): void {
+    this.dataLoaded = false;
+    this.lastSha = undefined;
+    this.shas.delete(path);
+  }
+
+  /**
+   * Runs a write and, if `retryOnConflict` is set, runs it again after a
+   * `ConcurrencyError`. Each attempt re-reads the latest state and reapplies
+   * the logical operation, so concurrent changes to other items are kept.
+   * With a `conflictResolver`, later attempts run `resolve` instead.
+   */
+  private async withConflictRetry<R>(
+    operation: () => Promise<R>,
+    resolve: () => Promise<R>
+  ): Promise<R> {
+    const maxAttempts = Math.max(
+      1,
+      this.retryOnConflict?.maxAttempts ??
+        (this.conflictResolver ? DEFAULT_RESOLVE_ATTEMPTS : 1)
+    );
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return attempt > 1 && this.conflictResolver
+          ? await resolve()
+          : await operation();
+      } catch (error) {
+        if (!(error instanceof ConcurrencyError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Merges a conflicting write with the latest version of the document and
+   * stores the result. The resolver is only consulted if the document itself
+   * changed; if only other documents changed, the write is simply reapplied.
+   */
+  private async resolveConflict(
+    id: string,
+    pending: PendingWrite<T>
+  ): Promise<T | null> {
+    const remote = await this.findItemById(id);
+    const resolved =
+      JSON.stringify(remote) === JSON.stringify(pending.base)
+        ? pending.local
+        : await this.conflictResolver!({
+            id,
+            collection: this.name,
+            base: pending.base,
+            local: pending.local,
+            remote,
+          });
+
+    if (resolved === null) {
+      if (remote !== null) {
+        await this.remove(id);
+      }
+      return null;
+    }
+    return remote === null
+      ? this.insert(resolved)
+      : this.applyUpdate(id, resolved, undefined, true);
+  }
+
+  private requireResolved(id: string, item: T | null): T {
+    if (item === null) {
+      throw new Error(`Item with id ${id} not found in ${this.name}`);
+    }
+    return item;
+  }
+
+  private async applyAfterRead(item: T): Promise<T> {
+    const context: MiddlewareContext = {
+      collection: this.name,
+      operation: "read",
+    };
+
+    let currentItem = item;
+    for (const mw of this.middleware) {
+      if (mw.afterRead) {
+        currentItem = await mw.afterRead(currentItem, context);
+      }
+    }
+    return currentItem;
+  }
 }
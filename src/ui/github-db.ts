@@ -1,20 +1,85 @@
 import {
-  GitHubDBConfig,
+  CollectionOptions,
+  ConcurrencyError,
+  DBConfig,
+  DryRunReport,
   IStorageProvider,
-  Middleware,
   Schema,
-  StorageStrategy,
-  Validator,
+  TransactionOptions,
 } from "../core/types.js";
 import { GitHubStorageProvider } from "../infrastructure/github-storage.js";
+import { FileSystemStorageProvider } from "../infrastructure/fs-storage.js";
+import { InMemoryStorageProvider } from "../infrastructure/memory-storage.js";
+import { GitStorageProvider } from "../infrastructure/git-storage.js";
+import { GitLabStorageProvider } from "../infrastructure/gitlab-storage.js";
+import { GiteaStorageProvider } from "../infrastructure/gitea-storage.js";
+import { DryRunStorageProvider } from "../infrastructure/dry-run-storage.js";
+import { SnapshotStorageProvider } from "../infrastructure/snapshot-storage.js";
 import { Collection } from "./collection.js";
-
+import {
+  Migration,
+  MIGRATIONS_COLLECTION,
+  MigrationRecord,
+  MigrationResult,
+  MigrationStatus,
+} from "./migrations.js";
 import { Transaction } from "./transaction.js";
 
 export class GitHubDB {
   public readonly storage: IStorageProvider;
+  // Latest collection instance per name, used to resolve relations
+  private collections = new Map<string, Collection<any>>();
+
+  constructor(public readonly config: DBConfig) {
+    if (config.provider === "filesystem") {
+      if (!config.rootDir) {
+        throw new Error("rootDir is required");
+      }
+      this.storage = new FileSystemStorageProvider(config.rootDir);
+      return;
+    }
+
+    if (config.provider === "memory") {
+      this.storage = new InMemoryStorageProvider(config);
+      return;
+    }
+
+    if (config.provider === "git") {
+      if (!config.path) {
+        throw new Error("path is required");
+      }
+      this.storage = new GitStorageProvider(config);
+      return;
+    }
+
+    if (config.provider === "gitlab") {
+      if (!config.accessToken) {
+        throw new Error("accessToken is required");
+      }
+      if (!config.projectId) {
+        throw new Error("projectId is required");
+      }
+      this.storage = new GitLabStorageProvider(config);
+      return;
+    }
+
+    if (config.provider === "gitea") {
+      if (!config.accessToken) {
+        throw new Error("accessToken is required");
+      }
+      if (!config.baseUrl) {
+        throw new Error("baseUrl is required");
+      }
+      if (!config.owner) {
+        throw new Error("owner is required");
+      }
+      if (!config.repo) {
+        throw new Error("repo is required");
+      }
+      this.storage = new GiteaStorageProvider(config);
+      return;
+    }
 
-  constructor(public readonly config: GitHubDBConfig) {
     if (!config.accessToken) {
       throw new Error("accessToken is required");
     }
@@ -25,7 +90,18 @@ export class GitHubDB {
       throw new Error("repo is required");
     }
 
-    this.storage = new GitHubStorageProvider(config);
+    const github = new GitHubStorageProvider(config);
+    let storage: IStorageProvider = github;
+    if (config.snapshot) {
+      const ref =
+        (config.snapshot === true ? undefined : config.snapshot.ref) ??
+        (config.branch || "main");
+      storage = new SnapshotStorageProvider({
+        download: () => github.downloadArchive(ref),
+        ref,
+      });
+    }
+    this.storage = config.dryRun ? new DryRunStorageProvider(storage) : storage;
   }
 
   async connect(): Promise<boolean> {
@@ -34,17 +110,134 @@ export class GitHubDB {
 
   collection<T extends Schema>(
     name: string,
-    options: { middleware?: Middleware<T>[]; validator?: Validator<T>; strategy?: StorageStrategy } = {}
+    options: CollectionOptions<T> = {}
   ): Collection<T> {
-    return new Collection<T>(name, this.storage, options);
+    const collection = new Collection<T>(
+      name,
+      this.storage,
+      options,
+      (target, targetOptions) =>
+        this.collections.get(target) ??
+        new Collection(target, this.storage, targetOptions)
+    );
+    this.collections.set(name, collection);
+    return collection;
   }
 
+  /**
+   * Applies the given migrations in order, skipping those already recorded in
+   * `_migrations.json`. Each migration and its record are committed together
+   * in one transaction, so a migration is never applied twice, even when
+   * several processes migrate at once.
+   */
+  async migrate(migrations: Migration[]): Promise<MigrationResult> {
+    assertUniqueIds(migrations);
+    const result: MigrationResult = { applied: [], skipped: [] };
+
+    for (const migration of migrations) {
+      let applied = false;
+      await this.transaction(
+        async (tx) => {
+          applied = false;
+          const log = tx.collection<MigrationRecord>(MIGRATIONS_COLLECTION);
+          if (await log.findById(migration.id)) {
+            return;
+          }
+          await migration.up(tx);
+          await log.create({
+            id: migration.id,
+            appliedAt: new Date().toISOString(),
+          });
+          applied = true;
+        },
+        `Migration ${migration.id}`,
+        // A conflict may mean another process applied it; the retry checks
+        { retryOnConflict: { maxAttempts: 3 } }
+      );
+      (applied ? result.applied : result.skipped).push(migration.id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns which of the given migrations have been applied, and when.
+   */
+  async migrationStatus(migrations: Migration[]): Promise<MigrationStatus[]> {
+    assertUniqueIds(migrations);
+    const records = await new Collection<MigrationRecord>(
+      MIGRATIONS_COLLECTION,
+      this.storage
+    ).find();
+    const appliedAt = new Map(records.map((r) => [r.id, r.appliedAt]));
+    return migrations.map(({ id, description }) => ({
+      id,
+      ...(description ? { description } : {}),
+      appliedAt: appliedAt.get(id) ?? null,
+    }));
+  }
+
+  /**
+   * Returns the writes recorded so far by a database created with `dryRun`.
+   */
+  dryRunReport(): DryRunReport {
+    if (!(this.storage instanceof DryRunStorageProvider)) {
+      throw new Error("dryRun is not enabled for this database");
+    }
+    return this.storage.getReport();
+  }
+
+  transaction(
+    fn: (tx: Transaction) => Promise<void>,
+    message: string | undefined,
+    options: TransactionOptions & { dryRun: true }
+  ): Promise<DryRunReport>;
+  transaction(
+    fn: (tx: Transaction) => Promise<void>,
+    message?: string,
+    options?: TransactionOptions & { dryRun?: false }
+  ): Promise<string>;
+  transaction(
+    fn: (tx: Transaction) => Promise<void>,
+    message?: string,
+    options?: TransactionOptions
+  ): Promise<string | DryRunReport>;
   async transaction(
     fn: (tx: Transaction) => Promise<void>,
-    message: string = "Transaction commit"
-  ): Promise<string> {
-    const tx = new Transaction(this.storage);
-    await fn(tx);
-    return tx.commit(message);
+    message: string = "Transaction commit",
+    options: TransactionOptions = {}
+  ): Promise<string | DryRunReport> {
+    if (options.dryRun) {
+      // Nothing is sent, so there is nothing to conflict with
+      const storage = new DryRunStorageProvider(this.storage);
+      const tx = new Transaction(storage);
+      await fn(tx);
+      await tx.commit(message);
+      return storage.getReport();
+    }
+
+    const maxAttempts = Math.max(1, options.retryOnConflict?.maxAttempts ?? 1);
+    for (let attempt = 1; ; attempt++) {
+      // Every attempt starts from a fresh transaction, so fn sees the latest state
+      const tx = new Transaction(this.storage);
+      try {
+        await fn(tx);
+        return await tx.commit(message);
+      } catch (error) {
+        if (!(error instanceof ConcurrencyError) || attempt >= maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+function assertUniqueIds(migrations: Migration[]): void {
+  const seen = new Set<string>();
+  for (const { id } of migrations) {
+    if (seen.has(id)) {
+      throw new Error(`Duplicate migration id ${id}`);
+    }
+    seen.add(id);
   }
 }
@@ -0,0 +1,59 @@
+import { Schema, StorageStrategy } from "../core/types.js";
+import { convertCollectionStrategy } from "./strategy.js";
+import { Transaction } from "./transaction.js";
+
+/**
+ * Collection in which `GitHubDB.migrate` records applied migrations.
+ */
+export const MIGRATIONS_COLLECTION = "_migrations";
+
+export interface Migration {
+  /** Stable, unique id. Each id is applied once per database. */
+  id: string;
+  description?: string;
+  /** Makes the changes. Everything written through `tx` is one commit. */
+  up(tx: Transaction): Promise<void>;
+}
+
+export interface MigrationRecord extends Schema {
+  id: string;
+  appliedAt: string;
+}
+
+export interface MigrationResult {
+  applied: string[];
+  skipped: string[];
+}
+
+export interface MigrationStatus {
+  id: string;
+  description?: string;
+  /** When the migration was applied, or null if it is pending. */
+  appliedAt: string | null;
+}
+
+/**
+ * A built-in migration that moves a collection from one storage strategy to
+ * another, e.g. once a single-file collection has grown too large.
+ * `buckets` is the bucket count when converting to `bucketed`.
+ */
+export function strategyMigration(
+  collection: string,
+  from: StorageStrategy,
+  to: StorageStrategy,
+  options: { id?: string; buckets?: number } = {}
+): Migration {
+  return {
+    id: options.id ?? `convert-${collection}-to-${to}`,
+    description: `Convert ${collection} from ${from} to ${to}`,
+    up: async (tx) => {
+      await convertCollectionStrategy(
+        tx.storage,
+        collection,
+        from,
+        to,
+        options.buckets
+      );
+    },
+  };
+}
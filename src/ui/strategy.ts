@@ -0,0 +1,153 @@
+import { IStorageProvider, Schema, StorageStrategy } from "../core/types.js";
+import { bucketName, DEFAULT_BUCKETS } from "../core/buckets.js";
+import { readJsonFiles } from "../infrastructure/read-directory.js";
+
+/**
+ * Rewrites a collection's files from one strategy's layout to the other's.
+ * Returns the number of documents moved. Writes go through `storage`
+ * individually, so callers use a transaction to make them one commit.
+ * `buckets` is the bucket count when converting to `bucketed`.
+ */
+export async function convertCollectionStrategy(
+  storage: IStorageProvider,
+  name: string,
+  from: StorageStrategy,
+  to: StorageStrategy,
+  buckets = DEFAULT_BUCKETS
+): Promise<number> {
+  if (from === to) {
+    return 0;
+  }
+
+  const { documents, files } = await readLayout(storage, name, from);
+  if (files.length === 0) {
+    // Nothing to convert is fine for an empty collection, but data in the
+    // other layout means `from` is wrong and the conversion must not count
+    const elsewhere =
+      from === "single-file"
+        ? (await storage.listDirectory(name)).length > 0
+        : await storage.exists(`${name}.json`);
+    if (elsewhere) {
+      throw new Error(`Cannot convert ${name}: it is not stored as ${from}`);
+    }
+    return 0;
+  }
+
+  // Sharded and bucketed files share the collection directory, so only a
+  // conversion to or from the single file can find foreign data in its way
+  if (to === "single-file" && (await storage.exists(`${name}.json`))) {
+    throw new Error(`Collection ${name} already has single-file data`);
+  }
+  if (
+    from === "single-file" &&
+    (await storage.listDirectory(name)).length > 0
+  ) {
+    throw new Error(`Collection ${name} already has data in ${name}/`);
+  }
+
+  if (to !== "single-file") {
+    const seen = new Set<string>();
+    for (const { document, location } of documents) {
+      const id = requireId(name, document, location);
+      if (seen.has(id)) {
+        throw new Error(
+          `Cannot convert ${name}: more than one document has id ${id}`
+        );
+      }
+      seen.add(id);
+    }
+  }
+
+  const message = `Convert ${name} from ${from} to ${to}`;
+  const target = layoutFiles(
+    name,
+    to,
+    documents.map(({ document }) => document),
+    buckets
+  );
+  for (const file of files) {
+    if (!target.has(file.path)) {
+      await storage.deleteFile(file.path, message, file.sha);
+    }
+  }
+  for (const [path, content] of target) {
+    await storage.writeJson(path, content, message);
+  }
+  return documents.length;
+}
+
+async function readLayout(
+  storage: IStorageProvider,
+  name: string,
+  strategy: StorageStrategy
+): Promise<{
+  documents: { document: Schema; location: string }[];
+  files: { path: string; sha: string }[];
+}> {
+  if (strategy === "single-file") {
+    const path = `${name}.json`;
+    if (!(await storage.exists(path))) {
+      return { documents: [], files: [] };
+    }
+    const { data, sha } = await storage.readJson<Schema[]>(path);
+    return {
+      documents: data.map((document, index) => ({
+        document,
+        location: `at index ${index} of ${path}`,
+      })),
+      files: [{ path, sha }],
+    };
+  }
+
+  const files = await readJsonFiles<Schema | Schema[]>(storage, name);
+  return {
+    documents: files.flatMap(({ path, data }) =>
+      strategy === "bucketed"
+        ? (data as Schema[]).map((document, index) => ({
+            document,
+            location: `at index ${index} of ${path}`,
+          }))
+        : [{ document: data as Schema, location: `in ${path}` }]
+    ),
+    files: files.map(({ path, sha }) => ({ path, sha })),
+  };
+}
+
+function layoutFiles(
+  name: string,
+  strategy: StorageStrategy,
+  documents: Schema[],
+  buckets: number
+): Map<string, unknown> {
+  if (strategy === "single-file") {
+    return new Map([[`${name}.json`, documents]]);
+  }
+  if (strategy === "sharded") {
+    return new Map(
+      documents.map((document) => [`${name}/${document.id}.json`, document])
+    );
+  }
+  const files = new Map<string, Schema[]>();
+  for (const document of documents) {
+    const path = `${name}/${bucketName(document.id, buckets)}.json`;
+    const bucket = files.get(path) ?? [];
+    bucket.push(document);
+    files.set(path, bucket);
+  }
+  return files;
+}
+
+// Shards are named after the id and buckets chosen by it, so it must be usable in a file name
+function requireId(name: string, item: Schema, location: string): string {
+  const id = item?.id;
+  if (
+    (typeof id !== "string" && typeof id !== "number") ||
+    String(id) === "" ||
+    String(id).includes("/")
+  ) {
+    throw new Error(
+      `Cannot convert ${name}: the document ${location} has no usable id (got ${JSON.stringify(id)})`
+    );
+  }
+  return String(id);
+}
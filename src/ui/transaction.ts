@@ -1,8 +1,8 @@
 import {
+  CollectionOptions,
+  CommitChange,
   IStorageProvider,
-  Middleware,
   Schema,
-  Validator,
 } from "../core/types.js";
 import { TransactionStorageProvider } from "../infrastructure/transaction-storage.js";
 import { Collection } from "./collection.js";
@@ -12,6 +12,10 @@ import { Collection } from "./collection.js";
  */
 export class Transaction {
   private txStorage: TransactionStorageProvider;
+  private collections = new Map<string, Collection<any>>();
+  // Every instance handed out, so their in-memory state can be reset on rollback
+  private instances: Collection<any>[] = [];
+  private savepoints: { name: string; changes: CommitChange[] }[] = [];
 
   constructor(private readonly baseStorage: IStorageProvider) {
     this.txStorage = new TransactionStorageProvider(baseStorage);
@@ -23,13 +27,74 @@ export class Transaction {
    */
   collection<T extends Schema>(
     name: string,
-    options: { middleware?: Middleware<T>[]; validator?: Validator<T> } = {}
+    options: CollectionOptions<T> = {}
   ): Collection<T> {
-    return new Collection<T>(name, this.txStorage, options);
+    const collection = new Collection<T>(
+      name,
+      this.txStorage,
+      options,
+      (target, targetOptions) =>
+        this.collections.get(target) ??
+        this.track(new Collection(target, this.txStorage, targetOptions))
+    );
+    this.collections.set(name, collection);
+    return this.track(collection);
+  }
+
+  /**
+   * The storage the transaction's collections write to. Writes made here are
+   * buffered and committed with the rest of the transaction.
+   * @internal
+   */
+  get storage(): IStorageProvider {
+    return this.txStorage;
+  }
+
+  /**
+   * Returns a copy of the changes that would be committed right now.
+   */
+  preview(): CommitChange[] {
+    return structuredClone(this.txStorage.getChanges());
+  }
+
+  /**
+   * Marks the current pending changes, so they can be restored with `rollbackTo`.
+   * Reusing a name moves the savepoint.
+   */
+  savepoint(name: string): void {
+    this.savepoints = this.savepoints.filter((sp) => sp.name !== name);
+    this.savepoints.push({ name, changes: this.preview() });
+  }
+
+  /**
+   * Discards every change made after the savepoint. The savepoint itself is
+   * kept; savepoints created after it are removed.
+   */
+  rollbackTo(name: string): void {
+    const index = this.savepoints.findIndex((sp) => sp.name === name);
+    if (index === -1) {
+      throw new Error(`Unknown savepoint ${name}`);
+    }
+    const { changes } = this.savepoints[index];
+    this.savepoints = this.savepoints.slice(0, index + 1);
+    this.txStorage.setChanges(structuredClone(changes));
+    this.resetCollections();
+  }
+
+  /**
+   * Discards all pending changes and savepoints. Unless something is written
+   * afterwards, committing the transaction is a no-op.
+   */
+  rollback(): void {
+    this.savepoints = [];
+    this.txStorage.setChanges([]);
+    this.resetCollections();
   }
 
   /**
    * Commits all buffered changes in the transaction to GitHub in a single commit.
+   * Throws a ConcurrencyError listing the paths if anything the transaction
+   * read or wrote was changed by someone else in the meantime.
    * @internal
    */
   async commit(message: string): Promise<string> {
@@ -37,6 +102,20 @@ export class Transaction {
     if (changes.length === 0) {
       return "";
     }
-    return this.txStorage.commit(changes, message);
+    return this.txStorage.commit(changes, message, {
+      expectedShas: this.txStorage.getReadSet(),
+    });
+  }
+
+  private track<T extends Schema>(collection: Collection<T>): Collection<T> {
+    this.instances.push(collection);
+    return collection;
+  }
+
+  // Collections cache what they read, which may include discarded changes
+  private resetCollections(): void {
+    for (const collection of this.instances) {
+      collection.invalidate();
+    }
   }
 }
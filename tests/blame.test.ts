@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Collection } from "../src/ui/collection.js";
+import { IStorageProvider, Revision } from "../src/core/types.js";
+
+function revision<T>(sha: string, author: string, data: T | null): Revision<T> {
+  return {
+    sha,
+    author: { name: author, email: `${author.toLowerCase()}@example.com` },
+    timestamp: `2024-01-0${sha.slice(-1)}T00:00:00Z`,
+    message: `Commit ${sha}`,
+    data,
+  };
+}
+
+describe("Audit / Blame", () => {
+  interface Product {
+    id: string;
+    name: string;
+    price: number;
+    tags?: string[];
+  }
+
+  let mockStorage: IStorageProvider;
+
+  beforeEach(() => {
+    mockStorage = {
+      testConnection: vi.fn(),
+      exists: vi.fn().mockResolvedValue(true),
+      readJson: vi.fn(),
+      writeJson: vi.fn(),
+      deleteFile: vi.fn(),
+      listDirectory: vi.fn(),
+      commit: vi.fn(),
+      getHistory: vi.fn(),
+      resolveRef: vi.fn(),
+    };
+  });
+
+  it("should attribute each field to the commit that last changed it (sharded)", async () => {
+    const products = new Collection<Product>("products", mockStorage, {
+      strategy: "sharded",
+    });
+    mockStorage.getHistory = vi.fn().mockResolvedValue([
+      revision("c3", "Carol", { id: "p1", name: "Lamp", price: 25, tags: ["home"] }),
+      revision("c2", "Bob", { id: "p1", name: "Lamp", price: 25 }),
+      revision("c1", "Alice", { id: "p1", name: "Lamp", price: 20 }),
+    ]);
+
+    const blame = await products.blame("p1");
+
+    expect(blame?.id?.sha).toBe("c1");
+    expect(blame?.name?.author.name).toBe("Alice");
+    expect(blame?.price?.sha).toBe("c2");
+    expect(blame?.price?.author).toEqual({ name: "Bob", email: "bob@example.com" });
+    expect(blame?.tags?.sha).toBe("c3");
+    expect(blame?.price).not.toHaveProperty("data");
+  });
+
+  it("should work on single-file collections", async () => {
+    const products = new Collection<Product>("products", mockStorage);
+    mockStorage.getHistory = vi.fn().mockResolvedValue([
+      revision("c3", "Carol", [
+        { id: "p1", name: "Desk Lamp", price: 20 },
+        { id: "p2", name: "Chair", price: 50 },
+      ]),
+      revision("c2", "Bob", [
+        { id: "p1", name: "Lamp", price: 20 },
+        { id: "p2", name: "Chair", price: 50 },
+      ]),
+      revision("c1", "Alice", [{ id: "p1", name: "Lamp", price: 20 }]),
+    ]);
+
+    const blame = await products.blame("p1");
+
+    expect(blame?.name?.sha).toBe("c3");
+    expect(blame?.price?.sha).toBe("c1");
+  });
+
+  it("should omit fields that were removed from the document", async () => {
+    const products = new Collection<Product>("products", mockStorage, {
+      strategy: "sharded",
+    });
+    mockStorage.getHistory = vi.fn().mockResolvedValue([
+      revision("c2", "Bob", { id: "p1", name: "Lamp", price: 20 }),
+      revision("c1", "Alice", { id: "p1", name: "Lamp", price: 20, tags: ["x"] }),
+    ]);
+
+    const blame = await products.blame("p1");
+    expect(blame).not.toHaveProperty("tags");
+  });
+
+  it("should return null for deleted or unknown documents", async () => {
+    const products = new Collection<Product>("products", mockStorage, {
+      strategy: "sharded",
+    });
+    mockStorage.getHistory = vi.fn().mockResolvedValue([
+      revision("c2", "Bob", null),
+      revision("c1", "Alice", { id: "p1", name: "Lamp", price: 20 }),
+    ]);
+    expect(await products.blame("p1")).toBeNull();
+
+    mockStorage.getHistory = vi.fn().mockResolvedValue([]);
+    expect(await products.blame("p2")).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { bucketName, fnv1a32 } from "../src/core/buckets.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+interface Event {
+  id: string;
+  type: string;
+}
+
+describe("Bucket hashing", () => {
+  it("should use 32-bit FNV-1a", () => {
+    expect(fnv1a32("")).toBe(0x811c9dc5);
+    expect(fnv1a32("a")).toBe(0xe40c292c);
+    expect(fnv1a32("foobar")).toBe(0xbf9cf968);
+  });
+
+  it("should name buckets in fixed-width hex", () => {
+    expect(bucketName("1", 256)).toBe("1c");
+    expect(bucketName("a", 256)).toBe("2c");
+    expect(bucketName("1", 16)).toMatch(/^[0-9a-f]$/);
+    expect(bucketName("1", 4096)).toMatch(/^[0-9a-f]{3}$/);
+    expect(bucketName("1", 1)).toBe("0");
+  });
+});
+
+describe("Bucketed strategy", () => {
+  // With 4 buckets: ids 1 and 5 share bucket 0, 2 is in 1, 3 in 2, 4 in 3
+  const options = { strategy: "bucketed" as const, buckets: 4 };
+  let storage: InMemoryStorageProvider;
+  let events: Collection<Event>;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider();
+    events = new Collection<Event>("events", storage, options);
+  });
+
+  it("should store documents in the bucket file of their id", async () => {
+    await events.create({ id: "1", type: "login" });
+    await events.create({ id: "5", type: "logout" });
+    await events.create({ id: "2", type: "login" });
+
+    expect((await storage.listDirectory("events")).map((f) => f.path)).toEqual([
+      "events/0.json",
+      "events/1.json",
+    ]);
+    expect((await storage.readJson("events/0.json")).data).toEqual([
+      { id: "1", type: "login" },
+      { id: "5", type: "logout" },
+    ]);
+  });
+
+  it("should load the collection with one read per bucket", async () => {
+    for (const id of ["1", "2", "3", "4", "5"]) {
+      await events.create({ id, type: "login" });
+    }
+    const readJson = vi.spyOn(storage, "readJson");
+
+    const fresh = new Collection<Event>("events", storage, options);
+    expect((await fresh.find()).map((e) => e.id).sort()).toEqual([
+      "1",
+      "2",
+      "3",
+      "4",
+      "5",
+    ]);
+    expect(readJson).toHaveBeenCalledTimes(4);
+
+    readJson.mockClear();
+    const other = new Collection<Event>("events", storage, options);
+    expect(await other.findById("5")).toEqual({ id: "5", type: "login" });
+    expect(readJson).toHaveBeenCalledTimes(1);
+    expect(readJson).toHaveBeenCalledWith("events/0.json");
+    expect(await other.findById("9")).toBeNull();
+  });
+
+  it("should rewrite only the bucket of the changed document", async () => {
+    await events.create({ id: "1", type: "login" });
+    await events.create({ id: "2", type: "login" });
+    const writeJson = vi.spyOn(storage, "writeJson");
+
+    await events.update("2", { type: "logout" });
+
+    expect(writeJson).toHaveBeenCalledTimes(1);
+    expect(writeJson.mock.calls[0][0]).toBe("events/1.json");
+    expect(writeJson.mock.calls[0][1]).toEqual([{ id: "2", type: "logout" }]);
+  });
+
+  it("should only read the affected bucket for point writes", async () => {
+    for (const id of ["1", "2", "3", "4", "5"]) {
+      await events.create({ id, type: "login" });
+    }
+    const readJson = vi.spyOn(storage, "readJson");
+    const fresh = new Collection<Event>("events", storage, options);
+
+    await fresh.update("5", { type: "logout" });
+    await fresh.delete("2");
+
+    expect(readJson.mock.calls.map(([path]) => path)).toEqual([
+      "events/0.json",
+      "events/1.json",
+    ]);
+    expect((await storage.readJson("events/0.json")).data).toEqual([
+      { id: "1", type: "login" },
+      { id: "5", type: "logout" },
+    ]);
+    expect(await storage.exists("events/1.json")).toBe(false);
+  });
+
+  it("should delete a bucket file once it is empty", async () => {
+    await events.create({ id: "1", type: "login" });
+    await events.create({ id: "5", type: "login" });
+    await events.create({ id: "2", type: "login" });
+
+    await events.delete("1");
+    expect((await storage.readJson("events/0.json")).data).toEqual([
+      { id: "5", type: "login" },
+    ]);
+
+    await events.delete("5");
+    expect(await storage.exists("events/0.json")).toBe(false);
+    expect(await events.find()).toEqual([{ id: "2", type: "login" }]);
+  });
+
+  it("should track SHAs per bucket", async () => {
+    await events.create({ id: "1", type: "login" });
+    await events.create({ id: "2", type: "login" });
+    await events.find();
+    const other = () => new Collection<Event>("events", storage, options);
+
+    // Bucket 0 is unchanged, so this client's SHA for it is still valid
+    await other().update("2", { type: "other bucket" });
+    await events.update("1", { type: "logout" });
+
+    await other().create({ id: "5", type: "same bucket" });
+    await expect(events.update("1", { type: "stale" })).rejects.toThrow(
+      ConcurrencyError
+    );
+
+    const retrying = new Collection<Event>("events", storage, {
+      ...options,
+      retryOnConflict: { maxAttempts: 2 },
+    });
+    await retrying.find();
+    await other().update("5", { type: "changed again" });
+    await retrying.update("1", { type: "retried" });
+    expect((await storage.readJson("events/0.json")).data).toEqual([
+      { id: "1", type: "retried" },
+      { id: "5", type: "changed again" },
+    ]);
+  });
+
+  it("should read history and past versions from the bucket file", async () => {
+    await events.create({ id: "1", type: "login" });
+    const before = await storage.resolveRef("main");
+    await events.create({ id: "5", type: "login" });
+    await events.update("1", { type: "logout" });
+
+    expect(
+      (await events.history("1")).map((revision) => revision.data?.type)
+    ).toEqual(["logout", "login"]);
+    expect(await events.findById("1", { asOf: before })).toEqual({
+      id: "1",
+      type: "login",
+    });
+    expect(await events.find({ asOf: before })).toEqual([
+      { id: "1", type: "login" },
+    ]);
+    await expect(events.collectionHistory()).rejects.toThrow(
+      "not supported for bucketed collection events"
+    );
+  });
+
+  it("should convert to and from the other strategies", async () => {
+    await storage.writeJson(
+      "events.json",
+      ["1", "2", "3", "4", "5"].map((id) => ({ id, type: "login" })),
+      "Seed"
+    );
+    const single = new Collection<Event>("events", storage, { buckets: 4 });
+
+    const summary = await single.convertStrategy("bucketed");
+    expect(summary.written.sort()).toEqual([
+      "events/0.json",
+      "events/1.json",
+      "events/2.json",
+      "events/3.json",
+    ]);
+    expect(await single.findById("5")).toEqual({ id: "5", type: "login" });
+
+    await single.convertStrategy("sharded");
+    expect((await storage.listDirectory("events")).map((f) => f.path).sort()).toEqual([
+      "events/1.json",
+      "events/2.json",
+      "events/3.json",
+      "events/4.json",
+      "events/5.json",
+    ]);
+    expect((await storage.readJson("events/1.json")).data).toEqual({
+      id: "1",
+      type: "login",
+    });
+  });
+
+  it("should reject an invalid bucket count", () => {
+    expect(
+      () => new Collection("events", storage, { strategy: "bucketed", buckets: 0 })
+    ).toThrow("buckets must be a positive integer");
+  });
+});
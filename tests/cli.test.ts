@@ -3,9 +3,15 @@ import {
   initCommand,
   listCollectionsCommand,
   inspectCollectionCommand,
+  migrateUpCommand,
+  migrateStatusCommand,
 } from "../src/ui/cli/commands.js";
 import enquirer from "enquirer";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
 import { Octokit } from "@octokit/rest";
 
 // Mock the dependencies
@@ -197,6 +203,96 @@ describe("CLI Commands", () => {
     });
   });
 
+  describe("migrate commands", () => {
+    let dir: string;
+    let storage: InMemoryStorageProvider;
+
+    beforeEach(async () => {
+      process.env.GH_DB_OWNER = "test-owner";
+      process.env.GH_DB_REPO = "test-repo";
+      process.env.GH_DB_TOKEN = "test-token";
+
+      dir = await mkdtemp(join(tmpdir(), "gh-as-db-migrations-"));
+      await writeFile(
+        join(dir, "002-add-admin.mjs"),
+        `export default {
+          up: async (tx) => tx.collection("users").create({ id: "admin" }),
+        };`
+      );
+      await writeFile(
+        join(dir, "001-add-guest.mjs"),
+        `export default {
+          id: "add-guest",
+          up: async (tx) => tx.collection("users").create({ id: "guest" }),
+        };`
+      );
+      await writeFile(join(dir, "README.md"), "Not a migration");
+
+      storage = new InMemoryStorageProvider();
+      vi.mocked(GitHubStorageProvider).mockImplementation(function () {
+        return storage;
+      } as any);
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should apply pending migration files in file name order", async () => {
+      await migrateUpCommand({ dir });
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("add-guest")
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("002-add-admin")
+      );
+      const users = (await storage.readJson<any[]>("users.json")).data;
+      expect(users.map((u) => u.id)).toEqual(["guest", "admin"]);
+
+      await migrateUpCommand({ dir });
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("No pending migrations")
+      );
+    });
+
+    it("should show applied and pending migrations", async () => {
+      await storage.writeJson(
+        "_migrations.json",
+        [{ id: "add-guest", appliedAt: "2024-01-01T00:00:00.000Z" }],
+        "Seed"
+      );
+
+      await migrateStatusCommand({ dir });
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("2024-01-01T00:00:00.000Z")
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("002-add-admin (pending)")
+      );
+    });
+
+    it("should report files that do not export a migration", async () => {
+      await writeFile(join(dir, "003-broken.mjs"), "export const x = 1;");
+
+      await migrateUpCommand({ dir });
+
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining("003-broken.mjs does not export a migration")
+      );
+      expect(await storage.exists("users.json")).toBe(false);
+    });
+
+    it("should fail if environment variables are missing", async () => {
+      delete process.env.GH_DB_TOKEN;
+      await migrateStatusCommand({ dir });
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining("Error: Environment variables")
+      );
+    });
+  });
+
   describe("Command Failures", () => {
     it("should report error when init is cancelled or fails", async () => {
       vi.mocked(enquirer.prompt).mockRejectedValue(new Error("User cancelled"));
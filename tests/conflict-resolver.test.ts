@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import {
+  fieldLevelLastWriterWins,
+  localWins,
+  remoteWins,
+} from "../src/core/conflict.js";
+import {
+  ConcurrencyError,
+  ConflictResolver,
+  StorageStrategy,
+} from "../src/core/types.js";
+
+interface Note {
+  id: string;
+  title: string;
+  body: string;
+  tags?: string[];
+}
+
+describe("Conflict resolvers", () => {
+  const base: Note = { id: "1", title: "Draft", body: "Hello", tags: ["a"] };
+  const conflict = (local: Note | null, remote: Note | null) => ({
+    id: "1",
+    collection: "notes",
+    base,
+    local,
+    remote,
+  });
+
+  it("should merge changed fields with fieldLevelLastWriterWins", () => {
+    const local = { ...base, title: "Final" };
+    delete local.tags;
+    const remote = { ...base, body: "Hello, world", tags: ["a", "b"] };
+
+    expect(fieldLevelLastWriterWins(conflict(local, remote))).toEqual({
+      id: "1",
+      title: "Final",
+      body: "Hello, world",
+    });
+  });
+
+  it("should prefer this client's side when either side deleted", () => {
+    const local = { ...base, title: "Final" };
+    expect(fieldLevelLastWriterWins(conflict(local, null))).toEqual(local);
+    expect(fieldLevelLastWriterWins(conflict(null, base))).toBeNull();
+  });
+
+  it("should pick one side with remoteWins and localWins", () => {
+    const local = { ...base, title: "Local" };
+    const remote = { ...base, title: "Remote" };
+    expect(remoteWins(conflict(local, remote))).toBe(remote);
+    expect(localWins(conflict(local, remote))).toBe(local);
+  });
+});
+
+describe.each<StorageStrategy>(["single-file", "sharded"])(
+  "Collection conflict resolution (%s)",
+  (strategy) => {
+    function setup(conflictResolver?: ConflictResolver<Note>) {
+      const storage = new InMemoryStorageProvider();
+      const laptop = new Collection<Note>("notes", storage, {
+        strategy,
+        conflictResolver,
+      });
+      const phone = new Collection<Note>("notes", storage, { strategy });
+      return { storage, laptop, phone };
+    }
+
+    async function stored(storage: InMemoryStorageProvider, id: string) {
+      const phone = new Collection<Note>("notes", storage, { strategy });
+      return phone.findById(id);
+    }
+
+    it("should merge edits to different fields of the same document", async () => {
+      const { storage, laptop, phone } = setup(fieldLevelLastWriterWins);
+      await laptop.create({ id: "1", title: "Draft", body: "Hello" });
+      await laptop.find();
+      await phone.update("1", { body: "Hello from my phone" });
+
+      const result = await laptop.update("1", { title: "Final" });
+
+      expect(result).toEqual({ id: "1", title: "Final", body: "Hello from my phone" });
+      expect(await stored(storage, "1")).toEqual(result);
+    });
+
+    it("should pass base, local and remote versions to the resolver", async () => {
+      const resolver = vi.fn(remoteWins);
+      const { laptop, phone } = setup(resolver);
+      await laptop.create({ id: "1", title: "Draft", body: "Hello" });
+      await laptop.find();
+      await phone.update("1", { title: "Phone" });
+
+      const result = await laptop.update("1", { title: "Laptop" });
+
+      expect(resolver).toHaveBeenCalledWith({
+        id: "1",
+        collection: "notes",
+        base: { id: "1", title: "Draft", body: "Hello" },
+        local: { id: "1", title: "Laptop", body: "Hello" },
+        remote: { id: "1", title: "Phone", body: "Hello" },
+      });
+      expect(result.title).toBe("Phone");
+    });
+
+    it("should abort when the resolver throws", async () => {
+      const { storage, laptop, phone } = setup(() => {
+        throw new Error("Manual merge required");
+      });
+      await laptop.create({ id: "1", title: "Draft", body: "Hello" });
+      await laptop.find();
+      await phone.update("1", { title: "Phone" });
+
+      await expect(laptop.update("1", { title: "Laptop" })).rejects.toThrow(
+        "Manual merge required"
+      );
+      expect((await stored(storage, "1"))?.title).toBe("Phone");
+    });
+
+    it("should resolve a delete that conflicts with an edit", async () => {
+      const { storage, laptop, phone } = setup(remoteWins);
+      await laptop.create({ id: "1", title: "Draft", body: "Hello" });
+      await laptop.find();
+      await phone.update("1", { body: "Keep me" });
+
+      await laptop.delete("1");
+
+      expect((await stored(storage, "1"))?.body).toBe("Keep me");
+    });
+
+    it("should throw ConcurrencyError without a resolver", async () => {
+      const { laptop, phone } = setup(undefined);
+      await laptop.create({ id: "1", title: "Draft", body: "Hello" });
+      await laptop.find();
+      await phone.update("1", { body: "Phone" });
+
+      await expect(laptop.update("1", { title: "Laptop" })).rejects.toThrow(
+        ConcurrencyError
+      );
+    });
+  }
+);
+
+describe("Collection conflict resolution with unrelated changes", () => {
+  it("should not consult the resolver when only other documents changed", async () => {
+    const storage = new InMemoryStorageProvider();
+    const resolver = vi.fn(remoteWins);
+    const laptop = new Collection<Note>("notes", storage, {
+      conflictResolver: resolver,
+    });
+    const phone = new Collection<Note>("notes", storage);
+    await laptop.create({ id: "1", title: "One", body: "" });
+    await laptop.find();
+    await phone.create({ id: "2", title: "Two", body: "" });
+
+    await laptop.update("1", { title: "Uno" });
+
+    expect(resolver).not.toHaveBeenCalled();
+    expect((await phone.find()).map((n) => n.title)).toEqual(["Uno", "Two"]);
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError, IStorageProvider } from "../src/core/types.js";
+
+interface Log {
+  id: string;
+  message: string;
+}
+
+describe("Retry on conflict", () => {
+  it("should merge concurrent appends to a single-file collection", async () => {
+    const storage = new InMemoryStorageProvider({
+      initialData: { "logs.json": [] },
+    });
+    const serviceA = new Collection<Log>("logs", storage, {
+      retryOnConflict: { maxAttempts: 3 },
+    });
+    const serviceB = new Collection<Log>("logs", storage, {
+      retryOnConflict: { maxAttempts: 3 },
+    });
+    await serviceA.find();
+    await serviceB.find();
+
+    await serviceA.create({ id: "a", message: "from A" });
+    await serviceB.create({ id: "b", message: "from B" });
+
+    expect((await storage.readJson<Log[]>("logs.json")).data).toEqual([
+      { id: "a", message: "from A" },
+      { id: "b", message: "from B" },
+    ]);
+  });
+
+  it("should reapply updates and deletes on top of the latest state", async () => {
+    const storage = new InMemoryStorageProvider({
+      initialData: {
+        "logs.json": [
+          { id: "1", message: "one" },
+          { id: "2", message: "two" },
+        ],
+      },
+    });
+    const stale = new Collection<Log>("logs", storage, {
+      retryOnConflict: { maxAttempts: 2 },
+    });
+    const other = new Collection<Log>("logs", storage);
+    await stale.find();
+
+    await other.create({ id: "3", message: "three" });
+    await stale.update("1", { message: "uno" });
+    await other.update("3", { message: "tres" });
+    await stale.delete("2");
+
+    expect((await storage.readJson<Log[]>("logs.json")).data).toEqual([
+      { id: "1", message: "uno" },
+      { id: "3", message: "tres" },
+    ]);
+  });
+
+  it("should retry sharded writes with the current file SHA", async () => {
+    const storage = new InMemoryStorageProvider();
+    const first = new Collection<Log>("logs", storage, {
+      strategy: "sharded",
+      retryOnConflict: { maxAttempts: 2 },
+    });
+    const second = new Collection<Log>("logs", storage, {
+      strategy: "sharded",
+      retryOnConflict: { maxAttempts: 2 },
+    });
+
+    await first.create({ id: "1", message: "v1" });
+    await first.find();
+    await second.update("1", { message: "v2" });
+
+    await first.update("1", { message: "v3" });
+    expect((await storage.readJson<Log>("logs/1.json")).data.message).toBe("v3");
+
+    await second.update("1", { message: "v4" });
+    await first.delete("1");
+    expect(await storage.exists("logs/1.json")).toBe(false);
+  });
+
+  it("should throw ConcurrencyError once maxAttempts is exhausted", async () => {
+    const storage: IStorageProvider = {
+      testConnection: vi.fn(),
+      exists: vi.fn().mockResolvedValue(true),
+      readJson: vi.fn().mockResolvedValue({ data: [], sha: "sha" }),
+      writeJson: vi.fn().mockRejectedValue(new ConcurrencyError("logs.json")),
+      deleteFile: vi.fn(),
+      listDirectory: vi.fn(),
+      commit: vi.fn(),
+      getHistory: vi.fn(),
+      resolveRef: vi.fn(),
+    };
+    const logs = new Collection<Log>("logs", storage, {
+      retryOnConflict: { maxAttempts: 3 },
+    });
+
+    await expect(logs.create({ id: "1", message: "x" })).rejects.toThrow(
+      ConcurrencyError
+    );
+    expect(storage.writeJson).toHaveBeenCalledTimes(3);
+    expect(storage.readJson).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry without the option", async () => {
+    const storage: IStorageProvider = {
+      testConnection: vi.fn(),
+      exists: vi.fn().mockResolvedValue(false),
+      readJson: vi.fn(),
+      writeJson: vi.fn().mockRejectedValue(new ConcurrencyError("logs.json")),
+      deleteFile: vi.fn(),
+      listDirectory: vi.fn(),
+      commit: vi.fn(),
+      getHistory: vi.fn(),
+      resolveRef: vi.fn(),
+    };
+    const logs = new Collection<Log>("logs", storage);
+
+    await expect(logs.create({ id: "1", message: "x" })).rejects.toThrow(
+      ConcurrencyError
+    );
+    expect(storage.writeJson).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate cached files after a conflict", async () => {
+    const storage = new GitHubStorageProvider({
+      accessToken: "token",
+      owner: "owner",
+      repo: "repo",
+      cacheTTL: 60_000,
+      retry: false,
+    });
+    const octokit = (storage as any).octokit;
+    let remote = { content: btoa("[]"), sha: "sha-1" };
+    vi.spyOn(octokit.repos, "getContent").mockImplementation(
+      async () => ({ data: remote })
+    );
+    const write = vi
+      .spyOn(octokit.repos, "createOrUpdateFileContents")
+      .mockImplementationOnce(async () => {
+        // Another service appended while this one was writing
+        remote = { content: btoa('[{"id":"b","message":"B"}]'), sha: "sha-2" };
+        throw { status: 409 };
+      })
+      .mockResolvedValueOnce({ data: { content: { sha: "sha-3" } } });
+
+    const logs = new Collection<Log>("logs", storage, {
+      retryOnConflict: { maxAttempts: 2 },
+    });
+    await logs.find();
+    await logs.create({ id: "a", message: "A" });
+
+    expect(write).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        sha: "sha-2",
+        content: btoa(
+          JSON.stringify(
+            [
+              { id: "b", message: "B" },
+              { id: "a", message: "A" },
+            ],
+            null,
+            2
+          )
+        ),
+      })
+    );
+  });
+
+  describe("transactions", () => {
+    function createDb(storage: IStorageProvider): GitHubDB {
+      const db = new GitHubDB({ provider: "memory" });
+      // @ts-ignore - injecting mock storage
+      db.storage = storage;
+      return db;
+    }
+
+    it("should rerun the callback on a fresh transaction", async () => {
+      const storage = new InMemoryStorageProvider({
+        initialData: { "counters.json": [{ id: "hits", value: 1 }] },
+      });
+      const commit = vi
+        .spyOn(storage, "commit")
+        .mockRejectedValueOnce(new ConcurrencyError("batch-commit"));
+      const db = createDb(storage);
+      const fn = vi.fn(async (tx) => {
+        const counters = tx.collection("counters");
+        const counter = await counters.findById("hits");
+        await counters.update("hits", { value: counter.value + 1 });
+      });
+
+      await db.transaction(fn, "Increment", {
+        retryOnConflict: { maxAttempts: 2 },
+      });
+
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(fn.mock.calls[0][0]).not.toBe(fn.mock.calls[1][0]);
+      expect(commit).toHaveBeenCalledTimes(2);
+      expect((await storage.readJson<any[]>("counters.json")).data).toEqual([
+        { id: "hits", value: 2 },
+      ]);
+    });
+
+    it("should rethrow conflicts by default", async () => {
+      const storage = new InMemoryStorageProvider();
+      vi.spyOn(storage, "commit").mockRejectedValue(
+        new ConcurrencyError("batch-commit")
+      );
+      const db = createDb(storage);
+      const fn = vi.fn(async (tx) => {
+        await tx.collection("logs").create({ id: "1" });
+      });
+
+      await expect(db.transaction(fn)).rejects.toThrow(ConcurrencyError);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
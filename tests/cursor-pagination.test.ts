@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { decodeCursor, encodeCursor } from "../src/core/cursor.js";
+import { Page, SortOptions } from "../src/core/types.js";
+
+interface Post {
+  id: string;
+  author: string;
+  score: number | null;
+}
+
+const posts: Post[] = [
+  { id: "p1", author: "ana", score: 3 },
+  { id: "p2", author: "bo", score: 7 },
+  { id: "p3", author: "ana", score: 7 },
+  { id: "p4", author: "cy", score: null },
+  { id: "p5", author: "bo", score: 1 },
+];
+
+async function collectPages<T>(
+  fetch: (cursor: string | null) => Promise<Page<T>>
+): Promise<T[][]> {
+  const pages: T[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page: Page<T> = await fetch(cursor);
+    pages.push(page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+describe("Cursors", () => {
+  const sort: SortOptions<Post>[] = [
+    { field: "score", order: "desc" },
+    { field: "id", order: "asc" },
+  ];
+
+  it("should round-trip sort values, including non-ASCII strings", () => {
+    const cursor = encodeCursor(sort, ["Ærøskøbing", "p/1+?"]);
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, sort)).toEqual(["Ærøskøbing", "p/1+?"]);
+  });
+
+  it("should reject malformed cursors and cursors for another sort", () => {
+    expect(() => decodeCursor("not a cursor", sort)).toThrow("Invalid cursor");
+    expect(() =>
+      decodeCursor(encodeCursor(sort, [1, "p1"]), [{ field: "id", order: "asc" }])
+    ).toThrow("Cursor was created for a different sort order");
+  });
+});
+
+describe("Collection.find with a cursor", () => {
+  let storage: InMemoryStorageProvider;
+  let collection: Collection<Post>;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({ initialData: { "posts.json": posts } });
+    collection = new Collection<Post>("posts", storage);
+  });
+
+  it("should page through the sort order with id as the tie-breaker", async () => {
+    const pages = await collectPages((cursor) =>
+      collection.find({
+        sort: [{ field: "score", order: "desc" }],
+        pagination: { limit: 2, cursor },
+      })
+    );
+
+    expect(pages.map((page) => page.map((p) => p.id))).toEqual([
+      ["p2", "p3"],
+      ["p1", "p5"],
+      ["p4"],
+    ]);
+  });
+
+  it("should return a null cursor on the last page", async () => {
+    const page = await collection.find({ pagination: { limit: 5, cursor: null } });
+    expect(page.items).toHaveLength(5);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("should keep pages stable when documents are inserted before the cursor", async () => {
+    const first = await collection.find({ pagination: { limit: 2, cursor: null } });
+    expect(first.items.map((p) => p.id)).toEqual(["p1", "p2"]);
+
+    // With an offset, p0 would push p2 onto the second page
+    await collection.create({ id: "p0", author: "dee", score: 2 });
+    await collection.create({ id: "p2a", author: "dee", score: 2 });
+    const second = await collection.find({
+      pagination: { limit: 2, cursor: first.nextCursor },
+    });
+
+    expect(second.items.map((p) => p.id)).toEqual(["p2a", "p3"]);
+  });
+
+  it("should apply filters before paging", async () => {
+    const pages = await collectPages((cursor) =>
+      collection.find({
+        filters: [{ field: "author", operator: "in", value: ["ana", "bo"] }],
+        pagination: { limit: 3, cursor },
+      })
+    );
+    expect(pages.map((page) => page.map((p) => p.id))).toEqual([
+      ["p1", "p2", "p3"],
+      ["p5"],
+    ]);
+  });
+
+  it("should refuse an offset together with a cursor", async () => {
+    await expect(
+      collection.find({ pagination: { offset: 2, cursor: null } })
+    ).rejects.toThrow("pagination.offset cannot be combined with a cursor");
+  });
+
+  it("should refuse a page size that could never advance", async () => {
+    await expect(
+      collection.find({ pagination: { limit: 0, cursor: null } })
+    ).rejects.toThrow("pagination.limit must be positive when using a cursor");
+  });
+});
+
+describe("Cursor pagination of sharded collections", () => {
+  let storage: InMemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({
+      initialData: Object.fromEntries(
+        posts.map((post) => [`posts/${post.id}.json`, post])
+      ),
+    });
+  });
+
+  it("should only read the files of the requested page", async () => {
+    const readJson = vi.spyOn(storage, "readJson");
+    const collection = new Collection<Post>("posts", storage, {
+      strategy: "sharded",
+    });
+
+    const first = await collection.find({ pagination: { limit: 2, cursor: null } });
+    expect(first.items.map((p) => p.id)).toEqual(["p1", "p2"]);
+    // One extra file tells whether there is a next page
+    expect(readJson.mock.calls.map(([path]) => path)).toEqual([
+      "posts/p1.json",
+      "posts/p2.json",
+      "posts/p3.json",
+    ]);
+
+    readJson.mockClear();
+    const second = await collection.find({
+      pagination: { limit: 2, cursor: first.nextCursor },
+    });
+    expect(second.items.map((p) => p.id)).toEqual(["p3", "p4"]);
+    expect(readJson).toHaveBeenCalledTimes(3);
+  });
+
+  it("should list shards through the provider's complete listing", async () => {
+    // Like the GitHub contents API, listDirectory stops at a fixed number
+    vi.spyOn(storage, "listDirectory").mockImplementation(async () =>
+      posts.slice(0, 2).map((post) => ({
+        path: `posts/${post.id}.json`,
+        sha: "",
+        type: "file" as const,
+      }))
+    );
+    storage.listJsonFiles = async () =>
+      posts.map((post) => ({ path: `posts/${post.id}.json`, sha: "" }));
+    const collection = new Collection<Post>("posts", storage, {
+      strategy: "sharded",
+    });
+
+    const pages = await collectPages((cursor) =>
+      collection.find({ pagination: { limit: 2, cursor } })
+    );
+
+    expect(pages.flat().map((p) => p.id)).toEqual(["p1", "p2", "p3", "p4", "p5"]);
+  });
+
+  it("should read a bounded number of shards at a time without a limit", async () => {
+    storage = new InMemoryStorageProvider({
+      initialData: Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`many/${i}.json`, { id: `${i}` }])
+      ),
+    });
+    const readJson = storage.readJson.bind(storage);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.spyOn(storage, "readJson").mockImplementation(async (path) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return readJson(path);
+    });
+    const collection = new Collection<{ id: string }>("many", storage, {
+      strategy: "sharded",
+    });
+
+    const page = await collection.find({ pagination: { cursor: null } });
+
+    expect(page.items).toHaveLength(20);
+    expect(page.nextCursor).toBeNull();
+    expect(maxInFlight).toBe(8);
+  });
+
+  it("should keep reading until a page of matches is found", async () => {
+    const collection = new Collection<Post>("posts", storage, {
+      strategy: "sharded",
+    });
+
+    const pages = await collectPages((cursor) =>
+      collection.find({
+        filters: [{ field: "author", operator: "eq", value: "bo" }],
+        sort: [{ field: "id", order: "desc" }],
+        pagination: { limit: 1, cursor },
+      })
+    );
+
+    expect(pages.map((page) => page.map((p) => p.id))).toEqual([["p5"], ["p2"]]);
+  });
+
+  it("should load every shard when sorting on other fields", async () => {
+    const sharded = new Collection<Post>("posts", storage, { strategy: "sharded" });
+    const query = (cursor: string | null) =>
+      sharded.find({
+        sort: [{ field: "author", order: "asc" }],
+        pagination: { limit: 2, cursor },
+      });
+
+    const pages = await collectPages(query);
+
+    expect(pages.map((page) => page.map((p) => p.id))).toEqual([
+      ["p1", "p3"],
+      ["p2", "p5"],
+      ["p4"],
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { encodeBase64 } from "../src/infrastructure/forge-storage.js";
+import { Collection } from "../src/ui/collection.js";
+
+const { mockGit, mockRepos } = vi.hoisted(() => ({
+  mockGit: {
+    getTree: vi.fn(),
+    getBlob: vi.fn(),
+  },
+  mockRepos: {
+    getContent: vi.fn(),
+    createOrUpdateFileContents: vi.fn(),
+  },
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      git = mockGit;
+      repos = mockRepos;
+    },
+  };
+});
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const config = {
+  accessToken: "test-token",
+  owner: "test-owner",
+  repo: "test-repo",
+  retry: false as const,
+};
+
+// Blob SHAs are made up: the provider never recomputes them
+const blobs: Record<string, User> = {
+  "sha-1": { id: "1", name: "Alice" },
+  "sha-2": { id: "2", name: "Bob" },
+  "sha-2b": { id: "2", name: "Bobby" },
+  "sha-3": { id: "3", name: "Carol" },
+};
+
+// Serves the root tree for any commit or branch and the "users" subtree
+function mockTrees(entries: Record<string, string>, truncated = false) {
+  mockGit.getTree.mockImplementation(async ({ tree_sha }) => ({
+    data:
+      tree_sha === "dir-sha"
+        ? {
+            truncated,
+            tree: [
+              { path: "archive", type: "tree", sha: "archive-sha" },
+              { path: "README.md", type: "blob", sha: "readme-sha" },
+              ...Object.entries(entries).map(([name, sha]) => ({
+                path: name,
+                type: "blob",
+                sha,
+              })),
+            ],
+          }
+        : {
+            truncated: false,
+            tree: [
+              { path: "users", type: "tree", sha: "dir-sha" },
+              { path: "users.json", type: "blob", sha: "other-sha" },
+            ],
+          },
+  }));
+}
+
+describe("GitHubStorageProvider.readDirectory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGit.getBlob.mockImplementation(async ({ file_sha }) => ({
+      data: { content: encodeBase64(JSON.stringify(blobs[file_sha])) },
+    }));
+  });
+
+  it("should read the JSON files of a directory from one tree listing", async () => {
+    mockTrees({ "1.json": "sha-1", "2.json": "sha-2" });
+    const provider = new GitHubStorageProvider(config);
+
+    expect(await provider.readDirectory<User>("users")).toEqual([
+      { path: "users/1.json", sha: "sha-1", data: blobs["sha-1"] },
+      { path: "users/2.json", sha: "sha-2", data: blobs["sha-2"] },
+    ]);
+    // The root tree to find the directory, then only the directory itself
+    expect(mockGit.getTree.mock.calls.map(([args]) => args)).toEqual([
+      expect.objectContaining({ tree_sha: "main" }),
+      expect.objectContaining({ tree_sha: "dir-sha" }),
+    ]);
+    expect(mockGit.getTree.mock.calls[0][0]).not.toHaveProperty("recursive");
+    expect(mockGit.getBlob.mock.calls.map(([args]) => args.file_sha)).toEqual([
+      "sha-1",
+      "sha-2",
+    ]);
+    expect(mockRepos.getContent).not.toHaveBeenCalled();
+  });
+
+  it("should only download blobs that changed since the last load", async () => {
+    const provider = new GitHubStorageProvider(config);
+    mockTrees({ "1.json": "sha-1", "2.json": "sha-2" });
+    await provider.readDirectory("users");
+    mockGit.getBlob.mockClear();
+
+    mockTrees({ "1.json": "sha-1", "2.json": "sha-2b", "3.json": "sha-3" });
+    const files = await provider.readDirectory<User>("users");
+
+    expect(files.map((file) => file.data.name)).toEqual([
+      "Alice",
+      "Bobby",
+      "Carol",
+    ]);
+    expect(mockGit.getBlob.mock.calls.map(([args]) => args.file_sha)).toEqual([
+      "sha-2b",
+      "sha-3",
+    ]);
+  });
+
+  it("should limit the number of blob downloads in flight", async () => {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < 20; i++) {
+      entries[`${i}.json`] = `sha-${i}`;
+    }
+    mockTrees(entries);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockGit.getBlob.mockImplementation(async ({ file_sha }) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      return { data: { content: encodeBase64(JSON.stringify({ id: file_sha })) } };
+    });
+
+    const files = await new GitHubStorageProvider(config).readDirectory("users");
+
+    expect(files).toHaveLength(20);
+    expect(mockGit.getBlob).toHaveBeenCalledTimes(20);
+    expect(maxInFlight).toBe(8);
+  });
+
+  it("should read the tree of a past commit", async () => {
+    const ref = "a".repeat(40);
+    mockTrees({ "1.json": "sha-1" });
+    const provider = new GitHubStorageProvider(config);
+
+    await provider.readDirectory("users", ref);
+    expect(mockGit.getTree).toHaveBeenCalledWith(
+      expect.objectContaining({ tree_sha: ref })
+    );
+    // The snapshot read is served from the same blob
+    expect((await provider.readJson("users/1.json", ref)).data).toEqual(
+      blobs["sha-1"]
+    );
+    expect(mockRepos.getContent).not.toHaveBeenCalled();
+  });
+
+  it("should fail instead of returning part of a truncated tree", async () => {
+    mockTrees({ "1.json": "sha-1" }, true);
+
+    await expect(
+      new GitHubStorageProvider(config).readDirectory("users")
+    ).rejects.toThrow('GitHub truncated the tree of "users"');
+    expect(mockGit.getBlob).not.toHaveBeenCalled();
+  });
+
+  it("should find nothing in a directory that does not exist", async () => {
+    mockTrees({});
+
+    expect(await new GitHubStorageProvider(config).readDirectory("posts")).toEqual(
+      []
+    );
+    expect(mockGit.getTree).toHaveBeenCalledTimes(1);
+  });
+
+  it("should load a sharded collection without reading files one by one", async () => {
+    mockTrees({ "1.json": "sha-1", "2.json": "sha-2" });
+    // Only the existence check goes through the contents API
+    mockRepos.getContent.mockResolvedValue({ data: [] });
+    mockRepos.createOrUpdateFileContents.mockResolvedValue({
+      data: { content: { sha: "sha-2c" } },
+    });
+    const users = new Collection<User>(
+      "users",
+      new GitHubStorageProvider(config),
+      { strategy: "sharded" }
+    );
+
+    expect((await users.find()).map((user) => user.name)).toEqual([
+      "Alice",
+      "Bob",
+    ]);
+    expect(mockRepos.getContent).toHaveBeenCalledTimes(1);
+
+    // The SHA from the tree is used for the next write
+    await users.update("2", { name: "Robert" });
+    expect(mockRepos.createOrUpdateFileContents).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "users/2.json", sha: "sha-2" })
+    );
+  });
+});
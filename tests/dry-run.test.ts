@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { DryRunStorageProvider } from "../src/infrastructure/dry-run-storage.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+
+const { mockRepos } = vi.hoisted(() => ({
+  mockRepos: {
+    getContent: vi.fn(),
+    createOrUpdateFileContents: vi.fn(),
+    deleteFile: vi.fn(),
+  },
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      git = {};
+      repos = mockRepos;
+    },
+  };
+});
+
+interface Product {
+  id: string;
+  price: number;
+}
+
+describe("Dry-run mode", () => {
+  let base: InMemoryStorageProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    base = new InMemoryStorageProvider({
+      initialData: {
+        "products.json": [{ id: "p1", price: 10 }],
+        "tags/t1.json": { id: "t1" },
+      },
+    });
+  });
+
+  it("should record writes with their before and after content", async () => {
+    const storage = new DryRunStorageProvider(base);
+    const head = await base.resolveRef("main");
+
+    await storage.writeJson("products.json", [{ id: "p1", price: 12 }], "Reprice");
+    await storage.deleteFile("tags/t1.json", "Remove tag", "sha");
+    await storage.commit(
+      [
+        { path: "products.json", content: [] },
+        { path: "tags/t2.json", content: { id: "t2" } },
+      ],
+      "Batch"
+    );
+
+    expect(storage.getReport()).toEqual({
+      commits: [
+        {
+          message: "Reprice",
+          changes: [
+            {
+              path: "products.json",
+              before: [{ id: "p1", price: 10 }],
+              after: [{ id: "p1", price: 12 }],
+            },
+          ],
+        },
+        {
+          message: "Remove tag",
+          changes: [{ path: "tags/t1.json", before: { id: "t1" }, after: null }],
+        },
+        {
+          message: "Batch",
+          changes: [
+            {
+              path: "products.json",
+              before: [{ id: "p1", price: 12 }],
+              after: [],
+            },
+            { path: "tags/t2.json", before: null, after: { id: "t2" } },
+          ],
+        },
+      ],
+    });
+    expect(await base.resolveRef("main")).toBe(head);
+    expect((await storage.readJson("tags/t2.json")).data).toEqual({ id: "t2" });
+  });
+
+  it("should snapshot content at the time of the write", async () => {
+    const storage = new DryRunStorageProvider(base);
+    const items = [{ id: "p1", price: 12 }];
+    await storage.writeJson("products.json", items, "Reprice");
+    items[0].price = 99;
+
+    expect(storage.getReport().commits[0].changes[0].after).toEqual([
+      { id: "p1", price: 12 },
+    ]);
+  });
+
+  it("should return a report from a dry-run transaction without committing", async () => {
+    const db = new GitHubDB({ provider: "memory" });
+    // @ts-ignore - injecting seeded storage
+    db.storage = base;
+    const commit = vi.spyOn(base, "commit");
+
+    const report = await db.transaction(
+      async (tx) => {
+        const products = tx.collection<Product>("products");
+        await products.update("p1", { price: 20 });
+        await products.create({ id: "p2", price: 5 });
+      },
+      "Import prices",
+      { dryRun: true }
+    );
+
+    expect(report).toEqual({
+      commits: [
+        {
+          message: "Import prices",
+          changes: [
+            {
+              path: "products.json",
+              before: [{ id: "p1", price: 10 }],
+              after: [
+                { id: "p1", price: 20 },
+                { id: "p2", price: 5 },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    expect(commit).not.toHaveBeenCalled();
+    expect(await db.collection<Product>("products").find()).toEqual([
+      { id: "p1", price: 10 },
+    ]);
+  });
+
+  it("should record collection writes when dryRun is set on the config", async () => {
+    mockRepos.getContent.mockRejectedValue(
+      Object.assign(new Error("Not Found"), { status: 404 })
+    );
+    const db = new GitHubDB({
+      accessToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      dryRun: true,
+    });
+    const products = db.collection<Product>("products");
+
+    await products.create({ id: "p1", price: 10 });
+    await products.update("p1", { price: 15 });
+
+    expect(mockRepos.createOrUpdateFileContents).not.toHaveBeenCalled();
+    expect(await products.findById("p1")).toEqual({ id: "p1", price: 15 });
+    expect(db.dryRunReport().commits.map((c) => c.changes[0].after)).toEqual([
+      [{ id: "p1", price: 10 }],
+      [{ id: "p1", price: 15 }],
+    ]);
+  });
+
+  it("should refuse to report when dryRun is not enabled", () => {
+    const db = new GitHubDB({ provider: "memory" });
+    expect(() => db.dryRunReport()).toThrow("dryRun is not enabled");
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { filterCandidates, matchesFilter } from "../src/core/filter.js";
+import { FilterExpression } from "../src/core/types.js";
+
+interface Issue {
+  id: string;
+  status: string;
+  priority: number;
+  assignee: string | null;
+}
+
+const issues: Issue[] = [
+  { id: "1", status: "open", priority: 5, assignee: null },
+  { id: "2", status: "open", priority: 1, assignee: "alice" },
+  { id: "3", status: "open", priority: 2, assignee: "carol" },
+  { id: "4", status: "closed", priority: 5, assignee: "bob" },
+  { id: "5", status: "open", priority: 4, assignee: "bob" },
+];
+
+const urgentOrMine: FilterExpression<Issue> = {
+  or: [
+    { field: "priority", operator: "gt", value: 3 },
+    { field: "assignee", operator: "in", value: ["alice", "bob"] },
+  ],
+};
+
+// status = open AND (priority > 3 OR assignee IN [alice, bob])
+const openAndUrgentOrMine: FilterExpression<Issue> = {
+  and: [{ field: "status", operator: "eq", value: "open" }, urgentOrMine],
+};
+
+describe("matchesFilter", () => {
+  const ids = (filter: FilterExpression<Issue>) =>
+    issues.filter((issue) => matchesFilter(issue, filter)).map((i) => i.id);
+
+  it("should evaluate nested and/or groups", () => {
+    expect(ids(openAndUrgentOrMine)).toEqual(["1", "2", "5"]);
+  });
+
+  it("should negate with not", () => {
+    expect(ids({ not: openAndUrgentOrMine })).toEqual(["3", "4"]);
+    expect(
+      ids({ not: { field: "assignee", operator: "eq", value: null } })
+    ).toEqual(["2", "3", "4", "5"]);
+  });
+
+  it("should treat empty groups as true for and and false for or", () => {
+    expect(ids({ and: [] })).toHaveLength(5);
+    expect(ids({ or: [] })).toEqual([]);
+  });
+});
+
+describe("filterCandidates", () => {
+  const byField = (field: keyof Issue, value: unknown) =>
+    issues.filter((issue) => issue[field] === value);
+
+  it("should use the most selective indexed branch of an and group", () => {
+    const lookup = (field: keyof Issue, value: unknown) =>
+      field === "priority" ? null : byField(field, value);
+    const candidates = filterCandidates<Issue>(
+      {
+        and: [
+          { field: "status", operator: "eq", value: "open" },
+          { field: "assignee", operator: "eq", value: "bob" },
+          { field: "priority", operator: "eq", value: 4 },
+        ],
+      },
+      lookup
+    );
+
+    expect(candidates?.map((i) => i.id)).toEqual(["4", "5"]);
+  });
+
+  it("should union the branches of an or group and in lists", () => {
+    const candidates = filterCandidates<Issue>(
+      {
+        or: [
+          { field: "status", operator: "eq", value: "closed" },
+          { field: "assignee", operator: "in", value: ["alice", "bob"] },
+        ],
+      },
+      byField
+    );
+
+    expect(candidates?.map((i) => i.id).sort()).toEqual(["2", "4", "5"]);
+  });
+
+  it("should need a full scan when a branch cannot use an index", () => {
+    expect(filterCandidates(urgentOrMine, byField)).toBeNull();
+    expect(
+      filterCandidates<Issue>(
+        { not: { field: "status", operator: "eq", value: "open" } },
+        byField
+      )
+    ).toBeNull();
+    // The and group can still narrow the scan with its indexed branch
+    expect(filterCandidates(openAndUrgentOrMine, byField)).toHaveLength(4);
+  });
+});
+
+describe("Collection.find with filter expressions", () => {
+  let storage: InMemoryStorageProvider;
+  let collection: Collection<Issue>;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({
+      initialData: { "issues.json": issues },
+    });
+    collection = new Collection<Issue>("issues", storage);
+  });
+
+  it("should give the same results on the first load and from the index", async () => {
+    const query = {
+      filters: [openAndUrgentOrMine],
+      sort: [{ field: "priority" as const, order: "desc" as const }],
+    };
+
+    const first = await collection.find(query);
+    const indexed = await collection.find(query);
+
+    expect(first.map((i) => i.id)).toEqual(["1", "5", "2"]);
+    expect(indexed).toEqual(first);
+  });
+
+  it("should return index results in stored order, before and after writes", async () => {
+    const query = {
+      filters: [
+        {
+          or: [
+            { field: "assignee" as const, operator: "eq" as const, value: "bob" },
+            { field: "priority" as const, operator: "eq" as const, value: 1 },
+          ],
+        },
+      ],
+      pagination: { limit: 2 },
+    };
+
+    const cold = await collection.find(query);
+    const warm = await collection.find(query);
+    expect(cold.map((i) => i.id)).toEqual(["2", "4"]);
+    expect(warm).toEqual(cold);
+
+    await collection.update("1", { assignee: "bob" });
+    const fresh = new Collection<Issue>("issues", storage);
+    expect((await collection.find(query)).map((i) => i.id)).toEqual(["1", "2"]);
+    expect(await fresh.find(query)).toEqual(await collection.find(query));
+  });
+
+  it("should sort and paginate results found through the index", async () => {
+    await collection.find();
+
+    const results = await collection.find({
+      filters: [{ field: "status", operator: "eq", value: "open" }],
+      sort: [{ field: "priority", order: "asc" }],
+      pagination: { limit: 2 },
+    });
+
+    expect(results.map((i) => i.id)).toEqual(["2", "3"]);
+  });
+
+  it("should combine top-level filters as an and group", async () => {
+    const results = await collection.find({
+      filters: [
+        { or: [{ field: "assignee", operator: "eq", value: "bob" }] },
+        { not: { field: "status", operator: "eq", value: "closed" } },
+      ],
+    });
+
+    expect(results.map((i) => i.id)).toEqual(["5"]);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { matchesFilter } from "../src/core/filter.js";
+import { FilterOperator } from "../src/core/types.js";
+
+interface Order {
+  id: string;
+  customer: string | null;
+  note?: string;
+  total: number | null;
+  placedAt: string;
+  lines: { sku: string; qty: number }[];
+  tags: string[];
+}
+
+const orders: Order[] = [
+  {
+    id: "1",
+    customer: "Alice Smith",
+    note: "Leave at door",
+    total: 120,
+    placedAt: "2024-03-01T10:00:00.000Z",
+    lines: [
+      { sku: "A-1", qty: 2 },
+      { sku: "B-7", qty: 1 },
+    ],
+    tags: ["Gift", "express"],
+  },
+  {
+    id: "2",
+    customer: "bob jones",
+    total: 40,
+    placedAt: "2024-01-15T08:30:00.000Z",
+    lines: [{ sku: "A-1", qty: 10 }],
+    tags: [],
+  },
+  {
+    id: "3",
+    customer: null,
+    note: undefined,
+    total: null,
+    placedAt: "2024-02-10T12:00:00.000Z",
+    lines: [],
+    tags: ["express"],
+  },
+];
+
+const ids = (field: string, operator: FilterOperator, value: unknown) =>
+  orders
+    .filter((order) =>
+      matchesFilter<Order>(order, { field: field as any, operator, value })
+    )
+    .map((order) => order.id);
+
+describe("Filter operators", () => {
+  it("should match strings with regex, startsWith, endsWith and icontains", () => {
+    expect(ids("customer", "regex", /^[a-z]+ j/)).toEqual(["2"]);
+    expect(ids("customer", "regex", "SMITH$")).toEqual([]);
+    const global = /smith$/gi;
+    expect(ids("customer", "regex", global)).toEqual(["1"]);
+    // Reusing a /g pattern gives the same answer
+    expect(ids("customer", "regex", global)).toEqual(["1"]);
+    expect(ids("customer", "startsWith", "Alice")).toEqual(["1"]);
+    expect(ids("customer", "endsWith", "jones")).toEqual(["2"]);
+    expect(ids("customer", "icontains", "JONES")).toEqual(["2"]);
+    expect(ids("tags", "icontains", "gift")).toEqual(["1"]);
+  });
+
+  it("should treat null as existing and undefined as missing", () => {
+    expect(ids("customer", "exists", true)).toEqual(["1", "2", "3"]);
+    expect(ids("note", "exists", true)).toEqual(["1"]);
+    expect(ids("note", "exists", false)).toEqual(["2", "3"]);
+    expect(ids("lines[*].sku", "exists", true)).toEqual(["1", "2"]);
+  });
+
+  it("should compare ranges inclusively and skip null values", () => {
+    expect(ids("total", "between", [40, 120])).toEqual(["1", "2"]);
+    expect(ids("total", "between", [41, 119])).toEqual([]);
+    expect(ids("total", "lt", 100)).toEqual(["2"]);
+    expect(ids("total", "lte", 0)).toEqual([]);
+  });
+
+  it("should compare Date values with ISO strings", () => {
+    const feb = new Date("2024-02-01T00:00:00.000Z");
+    expect(ids("placedAt", "gt", feb)).toEqual(["1", "3"]);
+    expect(
+      ids("placedAt", "between", [feb, new Date("2024-02-29T00:00:00.000Z")])
+    ).toEqual(["3"]);
+    expect(ids("placedAt", "eq", new Date("2024-01-15T08:30:00.000Z"))).toEqual([
+      "2",
+    ]);
+    expect(
+      ids("placedAt", "in", [new Date("2024-03-01T10:00:00.000Z")])
+    ).toEqual(["1"]);
+    // Without a Date, ISO strings compare as strings
+    expect(ids("placedAt", "lt", "2024-02")).toEqual(["2"]);
+  });
+
+  it("should exclude listed values with nin, including in arrays", () => {
+    expect(ids("customer", "nin", ["bob jones", null])).toEqual(["1"]);
+    expect(ids("note", "nin", ["Leave at door"])).toEqual(["2", "3"]);
+    expect(ids("tags[*]", "nin", ["express"])).toEqual(["2"]);
+  });
+
+  it("should match array sizes and elements", () => {
+    expect(ids("lines", "size", 1)).toEqual(["2"]);
+    expect(ids("tags", "size", 0)).toEqual(["2"]);
+    expect(ids("customer", "size", 0)).toEqual([]);
+    // Both conditions must hold for the same line
+    expect(
+      ids("lines", "elemMatch", {
+        and: [
+          { field: "sku", operator: "eq", value: "A-1" },
+          { field: "qty", operator: "gte", value: 5 },
+        ],
+      })
+    ).toEqual(["2"]);
+    expect(
+      ids("lines", "elemMatch", { field: "sku", operator: "startsWith", value: "B" })
+    ).toEqual(["1"]);
+  });
+});
+
+describe("Collection.find with the new operators", () => {
+  it("should still narrow the scan with an indexed condition", async () => {
+    const collection = new Collection<Order>(
+      "orders",
+      new InMemoryStorageProvider({ initialData: { "orders.json": orders } })
+    );
+    await collection.find();
+
+    const results = await collection.find({
+      filters: [
+        { field: "lines[*].sku", operator: "eq", value: "A-1" },
+        { field: "placedAt", operator: "gte", value: new Date("2024-02-01") },
+        { field: "customer", operator: "regex", value: /alice/i },
+      ],
+    });
+    const byDate = await collection.find({
+      filters: [
+        {
+          field: "placedAt",
+          operator: "eq",
+          value: new Date("2024-02-10T12:00:00.000Z"),
+        },
+      ],
+    });
+
+    expect(results.map((order) => order.id)).toEqual(["1"]);
+    expect(byDate.map((order) => order.id)).toEqual(["3"]);
+  });
+});
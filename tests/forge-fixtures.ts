@@ -0,0 +1,55 @@
+import { vi } from "vitest";
+
+export type Fixture = {
+  method?: string;
+  url: RegExp;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+/**
+ * Serves recorded forge API responses. Fixtures are matched in order and
+ * each one answers a single request.
+ */
+export function stubFetch(fixtures: Fixture[]) {
+  const queue = [...fixtures];
+  return vi.fn(async (url: string, init: RequestInit) => {
+    const method = init.method ?? "GET";
+    const index = queue.findIndex(
+      (f) => (f.method ?? "GET") === method && f.url.test(url)
+    );
+    if (index === -1) {
+      throw new Error(`Unexpected request: ${method} ${url}`);
+    }
+    const [fixture] = queue.splice(index, 1);
+    return new Response(
+      fixture.body === undefined || method === "HEAD"
+        ? null
+        : JSON.stringify(fixture.body),
+      { status: fixture.status ?? 200, headers: fixture.headers }
+    );
+  });
+}
+
+export function base64(text: string): string {
+  return Buffer.from(text).toString("base64");
+}
+
+/**
+ * Creates a provider whose requests are answered by `fixtures`. Retries
+ * wait 1ms so that tests of transient errors stay fast.
+ */
+export function createForgeProvider<C, P>(
+  Provider: new (config: C) => P,
+  config: Omit<C, "fetch" | "retry">,
+  fixtures: Fixture[]
+) {
+  const fetch = stubFetch(fixtures);
+  const provider = new Provider({
+    ...config,
+    retry: { baseDelay: 1, maxDelay: 1 },
+    fetch,
+  } as C);
+  return { provider, fetch };
+}
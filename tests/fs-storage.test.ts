@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileSystemStorageProvider } from "../src/infrastructure/fs-storage.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+describe("FileSystemStorageProvider", () => {
+  let rootDir: string;
+  let provider: FileSystemStorageProvider;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "gh-as-db-"));
+    provider = new FileSystemStorageProvider(rootDir);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should report a connection for an existing directory", async () => {
+    expect(await provider.testConnection()).toBe(true);
+    expect(
+      await new FileSystemStorageProvider(join(rootDir, "missing")).testConnection()
+    ).toBe(false);
+  });
+
+  it("should write and read JSON with a content-hash SHA", async () => {
+    const sha = await provider.writeJson("users.json", [{ id: "1" }], "msg");
+
+    const result = await provider.readJson("users.json");
+    expect(result).toEqual({ data: [{ id: "1" }], sha });
+    expect(sha).toMatch(/^[0-9a-f]{40}$/);
+    expect(await provider.exists("users.json")).toBe(true);
+  });
+
+  it("should use Git blob hashes as SHAs", async () => {
+    const sha = await provider.writeJson("a.json", { a: 1 }, "msg");
+    // printf '{\n  "a": 1\n}' | git hash-object --stdin
+    expect(sha).toBe("885e71c6ccde356ddf7c0332f9ea37106920d825");
+  });
+
+  it("should throw a 404 error for missing files", async () => {
+    await expect(provider.readJson("missing.json")).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(await provider.exists("missing.json")).toBe(false);
+  });
+
+  it("should throw ConcurrencyError on SHA mismatch", async () => {
+    await provider.writeJson("users.json", [], "msg");
+    await expect(
+      provider.writeJson("users.json", [{ id: "1" }], "msg", "stale-sha")
+    ).rejects.toThrow(ConcurrencyError);
+    await expect(
+      provider.deleteFile("users.json", "msg", "stale-sha")
+    ).rejects.toThrow(ConcurrencyError);
+  });
+
+  it("should delete files when the SHA matches", async () => {
+    const sha = await provider.writeJson("users.json", [], "msg");
+    await provider.deleteFile("users.json", "msg", sha);
+    expect(await provider.exists("users.json")).toBe(false);
+  });
+
+  it("should list directories for sharded collections", async () => {
+    await provider.writeJson("users/1.json", { id: "1" }, "msg");
+    await provider.writeJson("users/2.json", { id: "2" }, "msg");
+
+    const entries = await provider.listDirectory("users");
+    expect(entries.map((e) => e.path).sort()).toEqual([
+      "users/1.json",
+      "users/2.json",
+    ]);
+    expect(entries.every((e) => e.type === "file")).toBe(true);
+    expect(await provider.listDirectory("missing")).toEqual([]);
+  });
+
+  it("should refuse history and point-in-time reads", async () => {
+    await provider.writeJson("users.json", [], "msg");
+
+    await expect(provider.getHistory("users.json")).rejects.toThrow(
+      "does not keep history"
+    );
+    await expect(provider.readJson("users.json", "HEAD")).rejects.toThrow(
+      "does not keep history"
+    );
+    await expect(provider.resolveRef(new Date())).rejects.toThrow(
+      "does not keep history"
+    );
+  });
+
+  it("should apply a batch of changes in one commit", async () => {
+    await provider.writeJson("old.json", { gone: true }, "msg");
+
+    const sha = await provider.commit(
+      [
+        { path: "users/1.json", content: { id: "1" } },
+        { path: "logs.json", content: [{ id: "L1" }] },
+        { path: "old.json", content: null },
+      ],
+      "batch"
+    );
+
+    expect(sha).toMatch(/^[0-9a-f]{40}$/);
+    expect((await provider.readJson("users/1.json")).data).toEqual({ id: "1" });
+    expect((await provider.readJson("logs.json")).data).toEqual([{ id: "L1" }]);
+    expect(await provider.exists("old.json")).toBe(false);
+    // No temporary files left behind
+    expect((await readdir(rootDir)).some((f) => f.endsWith(".tmp"))).toBe(false);
+  });
+
+  it("should store pretty-printed JSON on disk", async () => {
+    await provider.writeJson("users.json", [{ id: "1" }], "msg");
+    const raw = await readFile(join(rootDir, "users.json"), "utf-8");
+    expect(raw).toBe(JSON.stringify([{ id: "1" }], null, 2));
+  });
+
+  it("should refuse paths that climb out of the root directory", async () => {
+    const dataDir = join(rootDir, "data");
+    const scoped = new FileSystemStorageProvider(dataDir);
+
+    await expect(scoped.writeJson("../x.json", {}, "msg")).rejects.toThrow(
+      "is outside of"
+    );
+    await expect(scoped.readJson("users/../../x.json")).rejects.toThrow(
+      "is outside of"
+    );
+    const users = new GitHubDB({ provider: "filesystem", rootDir: dataDir })
+      .collection<{ id: string }>("users", { strategy: "sharded" });
+    await expect(users.create({ id: "../../../x" })).rejects.toThrow("is outside of");
+    expect(await readdir(rootDir)).toEqual([]);
+
+    // `..` that stays inside the root is fine
+    await scoped.writeJson("users/../a.json", { a: 1 }, "msg");
+    expect((await scoped.readJson("a.json")).data).toEqual({ a: 1 });
+  });
+
+  it("should back a GitHubDB when selected in the config", async () => {
+    const db = new GitHubDB({ provider: "filesystem", rootDir });
+    expect(await db.connect()).toBe(true);
+
+    const users = db.collection<{ id: string; name: string }>("users", {
+      strategy: "sharded",
+    });
+    await users.create({ id: "1", name: "Alice" });
+    await users.update("1", { name: "Alicia" });
+
+    const fresh = db.collection<{ id: string; name: string }>("users", {
+      strategy: "sharded",
+    });
+    expect(await fresh.find()).toEqual([{ id: "1", name: "Alicia" }]);
+
+    await db.transaction(async (tx) => {
+      await tx.collection("logs").create({ id: "L1" });
+      await tx.collection("audit").create({ id: "A1" });
+    });
+    expect((await provider.readJson("logs.json")).data).toEqual([{ id: "L1" }]);
+  });
+
+  it("should commit a transaction that listed a directory created meanwhile", async () => {
+    const db = new GitHubDB({ provider: "filesystem", rootDir });
+
+    await db.transaction(async (tx) => {
+      expect(await tx.collection("users", { strategy: "sharded" }).find()).toEqual([]);
+      await provider.writeJson("users/1.json", { id: "1" }, "Outside write");
+      await tx.collection("logs").create({ id: "L1" });
+    });
+
+    expect((await provider.readJson("logs.json")).data).toEqual([{ id: "L1" }]);
+  });
+
+  it("should require rootDir", () => {
+    // @ts-ignore - testing runtime error
+    expect(() => new GitHubDB({ provider: "filesystem" })).toThrow(
+      "rootDir is required"
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { access, mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GitStorageProvider } from "../src/infrastructure/git-storage.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+function hasGit(): boolean {
+  try {
+    execFileSync("git", ["--version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function initBareRepository(path: string): Promise<void> {
+  await mkdir(join(path, "objects"), { recursive: true });
+  await mkdir(join(path, "refs", "heads"), { recursive: true });
+  await writeFile(join(path, "HEAD"), "ref: refs/heads/main\n");
+  await writeFile(
+    join(path, "config"),
+    "[core]\n\trepositoryformatversion = 0\n\tbare = true\n"
+  );
+}
+
+describe("GitStorageProvider", () => {
+  let repoPath: string;
+  let provider: GitStorageProvider;
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), "gh-as-db-git-"));
+    await initBareRepository(repoPath);
+    provider = new GitStorageProvider({
+      path: repoPath,
+      author: { name: "Alice", email: "alice@example.com" },
+    });
+  });
+
+  afterEach(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it("should connect to an initialized repository", async () => {
+    expect(await provider.testConnection()).toBe(true);
+    expect(
+      await new GitStorageProvider({ path: join(repoPath, "missing") }).testConnection()
+    ).toBe(false);
+  });
+
+  it("should treat an empty repository as having no files", async () => {
+    expect(await provider.exists("users.json")).toBe(false);
+    expect(await provider.listDirectory("users")).toEqual([]);
+    await expect(provider.readJson("users.json")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should write blobs as Git objects and read them back", async () => {
+    const sha = await provider.writeJson("a.json", { a: 1 }, "Add a");
+    // printf '{\n  "a": 1\n}' | git hash-object --stdin
+    expect(sha).toBe("885e71c6ccde356ddf7c0332f9ea37106920d825");
+    expect(await provider.readJson("a.json")).toEqual({ data: { a: 1 }, sha });
+  });
+
+  it("should reject stale SHAs with ConcurrencyError", async () => {
+    const sha = await provider.writeJson("users.json", [], "first");
+    await provider.writeJson("users.json", [{ id: "1" }], "second", sha);
+
+    await expect(
+      provider.writeJson("users.json", [{ id: "2" }], "third", sha)
+    ).rejects.toThrow(ConcurrencyError);
+    await expect(provider.deleteFile("users.json", "del", sha)).rejects.toThrow(
+      ConcurrencyError
+    );
+  });
+
+  it("should throw ConcurrencyError when the ref is locked by another writer", async () => {
+    await provider.writeJson("users.json", [], "first");
+    await writeFile(join(repoPath, "refs", "heads", "main.lock"), "");
+
+    await expect(provider.commit([{ path: "a.json", content: 1 }], "msg")).rejects.toThrow(
+      ConcurrencyError
+    );
+  });
+
+  it("should leave a lock taken by another writer after its own swap", async () => {
+    await provider.writeJson("users.json", [], "first");
+    const lockFile = join(repoPath, "refs", "heads", "main.lock");
+    const fs = await import("node:fs/promises");
+    // The second writer grabs the lock right after the first one renamed it
+    (provider as any).modules = Promise.resolve({
+      fs: {
+        ...fs,
+        rename: async (from: string, to: string) => {
+          await fs.rename(from, to);
+          if (from === lockFile) await writeFile(lockFile, "", { flag: "wx" });
+        },
+      },
+      zlib: await import("node:zlib"),
+    });
+
+    await provider.commit([{ path: "a.json", content: 1 }], "msg");
+
+    await expect(access(lockFile)).resolves.toBeUndefined();
+  });
+
+  it("should never let two concurrent writers both win the same head", async () => {
+    const other = new GitStorageProvider({ path: repoPath });
+    await provider.writeJson("log.json", 0, "seed");
+
+    const writes = [provider, other, provider, other, provider, other].map(
+      (writer, i) =>
+        writer
+          .commit([{ path: `w${i}.json`, content: i }], `write ${i}`)
+          .then(
+            () => i,
+            (error) => {
+              expect(error).toBeInstanceOf(ConcurrencyError);
+              return null;
+            }
+          )
+    );
+    const winners = (await Promise.all(writes)).filter((i) => i !== null);
+
+    // Every successful commit is on the branch, none was overwritten
+    for (const i of winners) {
+      expect(await provider.exists(`w${i}.json`)).toBe(true);
+    }
+    expect(winners.length).toBeGreaterThan(0);
+  });
+
+  it("should commit nested changes and deletions in one commit", async () => {
+    await provider.commit(
+      [
+        { path: "users/1.json", content: { id: "1" } },
+        { path: "users/2.json", content: { id: "2" } },
+        { path: "logs.json", content: [] },
+      ],
+      "seed"
+    );
+    await provider.commit(
+      [
+        { path: "users/1.json", content: null },
+        { path: "users/3.json", content: { id: "3" } },
+      ],
+      "batch"
+    );
+
+    const entries = await provider.listDirectory("users");
+    expect(entries.map((e) => [e.path, e.type])).toEqual([
+      ["users/2.json", "file"],
+      ["users/3.json", "file"],
+    ]);
+    expect(await provider.exists("users/")).toBe(true);
+
+    await provider.commit(
+      [
+        { path: "users/2.json", content: null },
+        { path: "users/3.json", content: null },
+      ],
+      "empty dir"
+    );
+    expect(await provider.exists("users")).toBe(false);
+  });
+
+  it("should record history and resolve refs", async () => {
+    await provider.writeJson("a.json", { v: 1 }, "create a");
+    const first = await provider.resolveRef("main");
+    await provider.writeJson("b.json", { v: 1 }, "create b");
+    await provider.writeJson("a.json", { v: 2 }, "update a");
+
+    const history = await provider.getHistory<{ v: number }>("a.json");
+    expect(history.map((h) => [h.message, h.data])).toEqual([
+      ["update a", { v: 2 }],
+      ["create a", { v: 1 }],
+    ]);
+    expect(history[0].author).toEqual({ name: "Alice", email: "alice@example.com" });
+    expect((await provider.readJson("a.json", first)).data).toEqual({ v: 1 });
+    await expect(provider.resolveRef("nope")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should back a GitHubDB when selected in the config", async () => {
+    const db = new GitHubDB({ provider: "git", path: `file://${repoPath}` });
+    const users = db.collection<{ id: string; name: string }>("users", {
+      strategy: "sharded",
+    });
+    await users.create({ id: "1", name: "Alice" });
+    await users.update("1", { name: "Alicia" });
+
+    expect((await users.history("1")).map((r) => r.data?.name)).toEqual([
+      "Alicia",
+      "Alice",
+    ]);
+
+    await db.transaction(async (tx) => {
+      await tx.collection("logs").create({ id: "L1" });
+      await tx.collection("audit").create({ id: "A1" });
+    }, "Batch");
+    expect((await provider.getHistory("logs.json"))[0].message).toBe("Batch");
+  });
+
+  describe.skipIf(!hasGit())("interoperability with git", () => {
+    function git(...args: string[]): string {
+      const identity = ["-c", "user.name=Bob", "-c", "user.email=bob@example.com"];
+      return execFileSync("git", [...identity, "--git-dir", repoPath, ...args], {
+        encoding: "utf-8",
+      });
+    }
+
+    it("should produce a repository that git can read", async () => {
+      await provider.commit(
+        [
+          { path: "users/1.json", content: { id: "1" } },
+          { path: "users.json", content: [] },
+        ],
+        "seed"
+      );
+
+      git("fsck", "--strict");
+      expect(git("show", "main:users/1.json")).toBe(
+        JSON.stringify({ id: "1" }, null, 2)
+      );
+      expect(git("log", "--format=%an %s").trim()).toBe("Alice seed");
+    });
+
+    it("should read packed objects and packed refs", async () => {
+      await provider.writeJson("a.json", { v: 1 }, "v1");
+      await provider.writeJson("a.json", { v: 2 }, "v2");
+      git("tag", "-a", "release", "-m", "Release", "main");
+      git("gc", "--quiet");
+
+      const fresh = new GitStorageProvider({ path: repoPath });
+      expect((await fresh.readJson("a.json")).data).toEqual({ v: 2 });
+      expect((await fresh.getHistory("a.json")).length).toBe(2);
+      expect(await fresh.resolveRef("release")).toBe(await fresh.resolveRef("main"));
+
+      await fresh.writeJson("a.json", { v: 3 }, "v3");
+      expect(git("show", "main:a.json")).toBe(JSON.stringify({ v: 3 }, null, 2));
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect } from "vitest";
+import { GiteaStorageProvider } from "../src/infrastructure/gitea-storage.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError } from "../src/core/types.js";
+import { base64, createForgeProvider, Fixture } from "./forge-fixtures.js";
+
+const API = "https://gitea.example.com/api/v1/repos/acme/data";
+
+const providerConfig = {
+  provider: "gitea",
+  accessToken: "gitea-token",
+  baseUrl: "https://gitea.example.com",
+  owner: "acme",
+  repo: "data",
+} as const;
+
+function createProvider(fixtures: Fixture[]) {
+  return createForgeProvider(GiteaStorageProvider, providerConfig, fixtures);
+}
+
+const usersFile = {
+  path: "users.json",
+  sha: "sha-1",
+  type: "file",
+  content: base64(JSON.stringify([{ id: "1" }], null, 2)),
+};
+
+describe("GiteaStorageProvider", () => {
+  it("should read files from the contents API", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/contents\/users\.json\?ref=main$/, body: usersFile },
+    ]);
+
+    expect(await provider.readJson("users.json")).toEqual({
+      data: [{ id: "1" }],
+      sha: "sha-1",
+    });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(`${API}/contents/users.json?ref=main`);
+    expect(init.headers).toMatchObject({ authorization: "token gitea-token" });
+  });
+
+  it("should revalidate cached files with If-None-Match", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/contents\/users\.json/, body: usersFile },
+      { url: /\/contents\/users\.json/, status: 304 },
+    ]);
+
+    await provider.readJson("users.json");
+    const second = await provider.readJson("users.json");
+
+    expect(second).toEqual({ data: [{ id: "1" }], sha: "sha-1" });
+    expect(fetch.mock.calls[1][1].headers).toMatchObject({
+      "if-none-match": '"sha-1"',
+    });
+  });
+
+  it("should create new files and update existing ones by SHA", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/contents\/logs\.json\?ref=main$/, status: 404, body: {} },
+      {
+        method: "POST",
+        url: /\/contents\/logs\.json$/,
+        status: 201,
+        body: { content: { sha: "sha-logs" }, commit: { sha: "c1" } },
+      },
+      {
+        method: "PUT",
+        url: /\/contents\/users\.json$/,
+        body: { content: { sha: "sha-2" }, commit: { sha: "c2" } },
+      },
+    ]);
+
+    expect(await provider.writeJson("logs.json", [], "Create logs")).toBe(
+      "sha-logs"
+    );
+    expect(
+      await provider.writeJson("users.json", [], "Update users", "sha-1")
+    ).toBe("sha-2");
+    expect(JSON.parse(fetch.mock.calls[2][1].body as string)).toEqual({
+      branch: "main",
+      message: "Update users",
+      content: base64("[]"),
+      sha: "sha-1",
+    });
+  });
+
+  it("should throw ConcurrencyError for stale SHAs", async () => {
+    const { provider } = createProvider([
+      {
+        method: "PUT",
+        url: /\/contents\/users\.json$/,
+        status: 409,
+        body: { message: "sha does not match" },
+      },
+      {
+        method: "DELETE",
+        url: /\/contents\/users\.json$/,
+        status: 422,
+        body: { message: "sha does not match [given: stale, expected: sha-2]" },
+      },
+    ]);
+
+    await expect(
+      provider.writeJson("users.json", [], "Update", "stale")
+    ).rejects.toThrow(ConcurrencyError);
+    await expect(provider.deleteFile("users.json", "Delete", "stale")).rejects.toThrow(
+      ConcurrencyError
+    );
+  });
+
+  it("should commit several files through the multi-file contents endpoint", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/contents\/users\/1\.json/, body: { ...usersFile, sha: "b1" } },
+      { url: /\/contents\/users\/2\.json/, status: 404, body: {} },
+      {
+        method: "POST",
+        url: /\/contents$/,
+        status: 201,
+        body: { files: [{ path: "users/2.json", sha: "b2" }, null], commit: { sha: "c3" } },
+      },
+      { url: /\/contents\/users\/2\.json/, status: 304 },
+    ]);
+
+    const sha = await provider.commit(
+      [
+        { path: "users/2.json", content: { id: "2" } },
+        { path: "users/1.json", content: null },
+      ],
+      "Batch"
+    );
+
+    expect(sha).toBe("c3");
+    const body = JSON.parse(fetch.mock.calls[2][1].body as string);
+    expect(body.files.map((f: any) => [f.operation, f.path, f.sha])).toEqual([
+      ["create", "users/2.json", undefined],
+      ["delete", "users/1.json", "b1"],
+    ]);
+    expect(await provider.readJson("users/2.json")).toEqual({
+      data: { id: "2" },
+      sha: "b2",
+    });
+  });
+
+  it("should send the SHAs it checked the expected SHAs against", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/contents\/users\/1\.json/, body: { ...usersFile, sha: "b1" } },
+      { url: /\/contents\/audit\.json/, body: { ...usersFile, sha: "a1" } },
+      {
+        method: "POST",
+        url: /\/contents$/,
+        status: 201,
+        body: { files: [{ path: "users/1.json", sha: "b2" }], commit: { sha: "c2" } },
+      },
+    ]);
+
+    await provider.commit(
+      [{ path: "users/1.json", content: { id: "1" } }],
+      "Update",
+      { expectedShas: { "users/1.json": "b1", "audit.json": "a1" } }
+    );
+
+    // One lookup per path, so a change after the check fails on the SHA
+    expect(fetch).toHaveBeenCalledTimes(3);
+    const body = JSON.parse(fetch.mock.calls[2][1].body as string);
+    expect(body.files).toMatchObject([
+      { operation: "update", path: "users/1.json", sha: "b1" },
+    ]);
+  });
+
+  it("should throw ConcurrencyError when deleting a file that is already gone", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/contents\/users\/1\.json/, status: 404, body: {} },
+    ]);
+
+    const error = await provider
+      .commit([{ path: "users/1.json", content: null }], "Delete")
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect(error.paths).toEqual(["users/1.json"]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should list directories and read history", async () => {
+    const { provider } = createProvider([
+      {
+        url: /\/contents\/users\?ref=main$/,
+        body: [
+          { path: "users/1.json", sha: "b1", type: "file" },
+          { path: "users/archive", sha: "t1", type: "dir" },
+        ],
+      },
+      {
+        url: /\/commits\?sha=main&stat=false&path=users\.json&limit=50&page=1$/,
+        body: [
+          {
+            sha: "c1",
+            commit: {
+              message: "Create users",
+              author: {
+                name: "Alice",
+                email: "alice@example.com",
+                date: "2024-01-01T00:00:00Z",
+              },
+            },
+          },
+        ],
+      },
+      { url: /\/contents\/users\.json\?ref=c1$/, body: usersFile },
+    ]);
+
+    expect((await provider.listDirectory("users")).map((e) => e.type)).toEqual([
+      "file",
+      "dir",
+    ]);
+    const history = await provider.getHistory("users.json");
+    expect(history).toEqual([
+      {
+        sha: "c1",
+        author: { name: "Alice", email: "alice@example.com" },
+        timestamp: "2024-01-01T00:00:00Z",
+        message: "Create users",
+        data: [{ id: "1" }],
+      },
+    ]);
+  });
+
+  it("should be selectable through the GitHubDB config", () => {
+    const db = new GitHubDB({
+      provider: "gitea",
+      accessToken: "token",
+      baseUrl: "https://gitea.example.com",
+      owner: "acme",
+      repo: "data",
+    });
+    expect(db.storage).toBeInstanceOf(GiteaStorageProvider);
+    expect(
+      () =>
+        new GitHubDB({
+          provider: "gitea",
+          accessToken: "token",
+          owner: "acme",
+          repo: "data",
+        } as any)
+    ).toThrow("baseUrl is required");
+  });
+});
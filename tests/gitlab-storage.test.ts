@@ -0,0 +1,315 @@
+import { describe, it, expect } from "vitest";
+import { GitLabStorageProvider } from "../src/infrastructure/gitlab-storage.js";
+import { gitBlobSha } from "../src/infrastructure/sha1.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError, RateLimitError } from "../src/core/types.js";
+import { base64, createForgeProvider, Fixture } from "./forge-fixtures.js";
+
+const API = "https://gitlab.example.com/api/v4/projects/acme%2Fdata";
+
+const providerConfig = {
+  provider: "gitlab",
+  accessToken: "glpat-token",
+  projectId: "acme/data",
+  baseUrl: "https://gitlab.example.com/",
+} as const;
+
+function createProvider(fixtures: Fixture[]) {
+  return createForgeProvider(GitLabStorageProvider, providerConfig, fixtures);
+}
+
+const usersJson = JSON.stringify([{ id: "1" }], null, 2);
+const usersSha = gitBlobSha(usersJson);
+
+describe("GitLabStorageProvider", () => {
+  it("should read files from the Repository Files API", async () => {
+    const { provider, fetch } = createProvider([
+      {
+        url: /\/repository\/files\/users\.json\?ref=main$/,
+        body: { content: base64(usersJson), blob_id: usersSha, encoding: "base64" },
+      },
+    ]);
+
+    expect(await provider.readJson("users.json")).toEqual({
+      data: [{ id: "1" }],
+      sha: usersSha,
+    });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(`${API}/repository/files/users.json?ref=main`);
+    expect(init.headers).toMatchObject({ "PRIVATE-TOKEN": "glpat-token" });
+  });
+
+  it("should revalidate cached files with a HEAD request", async () => {
+    const { provider, fetch } = createProvider([
+      {
+        url: /\/repository\/files\/users\.json\?ref=main$/,
+        body: { content: base64(usersJson), blob_id: usersSha },
+      },
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users\.json\?ref=main$/,
+        headers: { "x-gitlab-blob-id": usersSha, "x-gitlab-last-commit-id": "c1" },
+      },
+    ]);
+
+    await provider.readJson("users.json");
+    const second = await provider.readJson("users.json");
+
+    expect(second.data).toEqual([{ id: "1" }]);
+    expect(fetch.mock.calls.map(([, init]) => init.method)).toEqual([
+      "GET",
+      "HEAD",
+    ]);
+  });
+
+  it("should throw a 404 error for missing files", async () => {
+    const { provider } = createProvider([
+      {
+        url: /\/repository\/files\/missing\.json/,
+        status: 404,
+        body: { message: "404 File Not Found" },
+      },
+    ]);
+
+    await expect(provider.readJson("missing.json")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should update files with the last commit ID of the expected blob", async () => {
+    const { provider, fetch } = createProvider([
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users\.json/,
+        headers: { "x-gitlab-blob-id": "old-sha", "x-gitlab-last-commit-id": "c1" },
+      },
+      { method: "POST", url: /\/repository\/commits$/, body: { id: "c2" } },
+    ]);
+
+    const sha = await provider.writeJson("users.json", [{ id: "1" }], "Update", "old-sha");
+
+    expect(sha).toBe(usersSha);
+    expect(JSON.parse(fetch.mock.calls[1][1].body as string)).toEqual({
+      branch: "main",
+      commit_message: "Update",
+      actions: [
+        {
+          action: "update",
+          file_path: "users.json",
+          content: usersJson,
+          last_commit_id: "c1",
+        },
+      ],
+    });
+  });
+
+  it("should throw ConcurrencyError when the blob or commit is stale", async () => {
+    const { provider, fetch } = createProvider([
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users\.json/,
+        headers: { "x-gitlab-blob-id": "new-sha", "x-gitlab-last-commit-id": "c2" },
+      },
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users\.json/,
+        headers: { "x-gitlab-blob-id": "old-sha", "x-gitlab-last-commit-id": "c1" },
+      },
+      {
+        method: "POST",
+        url: /\/repository\/commits$/,
+        status: 400,
+        body: {
+          message:
+            "You are attempting to update a file that has changed since you started editing it.",
+        },
+      },
+    ]);
+
+    await expect(
+      provider.writeJson("users.json", [], "Update", "old-sha")
+    ).rejects.toThrow(ConcurrencyError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await expect(
+      provider.writeJson("users.json", [], "Update", "old-sha")
+    ).rejects.toThrow(ConcurrencyError);
+  });
+
+  it("should commit creates, updates and deletes as one commit", async () => {
+    const { provider, fetch } = createProvider([
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users%2F1\.json/,
+        headers: { "x-gitlab-blob-id": "b1", "x-gitlab-last-commit-id": "c1" },
+      },
+      { method: "HEAD", url: /\/repository\/files\/users%2F2\.json/, status: 404 },
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users%2F3\.json/,
+        headers: { "x-gitlab-blob-id": "b3", "x-gitlab-last-commit-id": "c3" },
+      },
+      { method: "POST", url: /\/repository\/commits$/, body: { id: "c4" } },
+    ]);
+
+    const sha = await provider.commit(
+      [
+        { path: "users/1.json", content: { id: "1" } },
+        { path: "users/2.json", content: { id: "2" } },
+        { path: "users/3.json", content: null },
+      ],
+      "Batch"
+    );
+
+    expect(sha).toBe("c4");
+    const body = JSON.parse(fetch.mock.calls[3][1].body as string);
+    expect(
+      body.actions.map((a: any) => [a.action, a.file_path, a.last_commit_id])
+    ).toEqual([
+      ["update", "users/1.json", "c1"],
+      ["create", "users/2.json", undefined],
+      ["delete", "users/3.json", "c3"],
+    ]);
+  });
+
+  it("should send the metadata it checked the expected SHAs against", async () => {
+    const { provider, fetch } = createProvider([
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users%2F1\.json/,
+        headers: { "x-gitlab-blob-id": "b1", "x-gitlab-last-commit-id": "c1" },
+      },
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/audit\.json/,
+        headers: { "x-gitlab-blob-id": "a1", "x-gitlab-last-commit-id": "c0" },
+      },
+      { method: "POST", url: /\/repository\/commits$/, body: { id: "c2" } },
+    ]);
+
+    await provider.commit(
+      [{ path: "users/1.json", content: { id: "1" } }],
+      "Update",
+      { expectedShas: { "users/1.json": "b1", "audit.json": "a1" } }
+    );
+
+    // One lookup per path, so a change after the check fails on last_commit_id
+    expect(fetch).toHaveBeenCalledTimes(3);
+    const body = JSON.parse(fetch.mock.calls[2][1].body as string);
+    expect(body.actions).toMatchObject([
+      { action: "update", file_path: "users/1.json", last_commit_id: "c1" },
+    ]);
+
+    const stale = createProvider([
+      {
+        method: "HEAD",
+        url: /\/repository\/files\/users%2F1\.json/,
+        headers: { "x-gitlab-blob-id": "b2", "x-gitlab-last-commit-id": "c2" },
+      },
+    ]);
+    await expect(
+      stale.provider.commit([{ path: "users/1.json", content: [] }], "Update", {
+        expectedShas: { "users/1.json": "b1" },
+      })
+    ).rejects.toThrow(ConcurrencyError);
+    expect(stale.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should list directories from the repository tree", async () => {
+    const { provider } = createProvider([
+      {
+        url: /\/repository\/tree\?path=users&ref=main&per_page=100&page=1$/,
+        body: [
+          { id: "b1", path: "users/1.json", type: "blob" },
+          { id: "t1", path: "users/archive", type: "tree" },
+        ],
+      },
+      { url: /\/repository\/tree\?path=missing/, status: 404, body: {} },
+    ]);
+
+    expect(await provider.listDirectory("users")).toEqual([
+      { path: "users/1.json", sha: "b1", type: "file" },
+      { path: "users/archive", sha: "t1", type: "dir" },
+    ]);
+    expect(await provider.listDirectory("missing")).toEqual([]);
+  });
+
+  it("should read file history from the Commits API", async () => {
+    const { provider } = createProvider([
+      {
+        url: /\/repository\/commits\?ref_name=main&path=users\.json&per_page=100&page=1$/,
+        body: [
+          {
+            id: "c2",
+            author_name: "Bob",
+            author_email: "bob@example.com",
+            authored_date: "2024-01-02T00:00:00Z",
+            message: "Delete users",
+          },
+          {
+            id: "c1",
+            author_name: "Alice",
+            author_email: "alice@example.com",
+            authored_date: "2024-01-01T00:00:00Z",
+            message: "Create users",
+          },
+        ],
+      },
+      { url: /files\/users\.json\?ref=c2$/, status: 404, body: {} },
+      {
+        url: /files\/users\.json\?ref=c1$/,
+        body: { content: base64(usersJson), blob_id: usersSha },
+      },
+    ]);
+
+    const history = await provider.getHistory("users.json");
+    expect(history.map((r) => [r.sha, r.author.name, r.data])).toEqual([
+      ["c2", "Bob", null],
+      ["c1", "Alice", [{ id: "1" }]],
+    ]);
+  });
+
+  it("should resolve branch names and dates to commit SHAs", async () => {
+    const { provider } = createProvider([
+      { url: /\/repository\/commits\/v1\.0$/, body: { id: "a".repeat(40) } },
+      {
+        url: /\/repository\/commits\?ref_name=main&until=2024-01-01T00%3A00%3A00\.000Z&per_page=1$/,
+        body: [{ id: "b".repeat(40) }],
+      },
+    ]);
+
+    expect(await provider.resolveRef("v1.0")).toBe("a".repeat(40));
+    expect(await provider.resolveRef(new Date("2024-01-01T00:00:00Z"))).toBe(
+      "b".repeat(40)
+    );
+  });
+
+  it("should share the retry and rate limit handling", async () => {
+    const { provider, fetch } = createProvider([
+      { url: /\/repository\/tree/, status: 502, body: {} },
+      { url: /\/repository\/tree/, status: 200, body: [] },
+      { url: /\/repository\/tree/, status: 429, headers: { "retry-after": "0" } },
+      { url: /\/repository\/tree/, status: 429, headers: { "retry-after": "0" } },
+      { url: /\/repository\/tree/, status: 429, headers: { "retry-after": "0" } },
+      { url: /\/repository\/tree/, status: 429, headers: { "retry-after": "0" } },
+    ]);
+
+    expect(await provider.listDirectory("users")).toEqual([]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const error = await provider.listDirectory("users").catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.message).toBe("GitLab API rate limit exceeded");
+  });
+
+  it("should be selectable through the GitHubDB config", () => {
+    const db = new GitHubDB({
+      provider: "gitlab",
+      accessToken: "token",
+      projectId: 42,
+    });
+    expect(db.storage).toBeInstanceOf(GitLabStorageProvider);
+    expect(
+      () => new GitHubDB({ provider: "gitlab", accessToken: "token" } as any)
+    ).toThrow("projectId is required");
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { gitBlobSha } from "../src/infrastructure/sha1.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+const { mockGit, mockRepos, mockGraphql } = vi.hoisted(() => ({
+  mockGit: {
+    getRef: vi.fn(),
+    getCommit: vi.fn(),
+    createTree: vi.fn(),
+    createCommit: vi.fn(),
+    updateRef: vi.fn(),
+  },
+  mockRepos: {
+    get: vi.fn(),
+    getContent: vi.fn(),
+  },
+  mockGraphql: vi.fn(),
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      git = mockGit;
+      repos = mockRepos;
+      graphql = mockGraphql;
+    },
+  };
+});
+
+describe("GraphQL commit mode", () => {
+  const config = {
+    accessToken: "test-token",
+    owner: "test-owner",
+    repo: "test-repo",
+    branch: "data",
+    commitMode: "graphql" as const,
+    retry: false as const,
+  };
+
+  const headOid = "a".repeat(40);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function mockHead() {
+    mockGraphql.mockResolvedValueOnce({
+      repository: { ref: { target: { oid: headOid } } },
+    });
+  }
+
+  it("should commit with createCommitOnBranch instead of the REST Git Data API", async () => {
+    mockHead();
+    mockGraphql.mockResolvedValueOnce({
+      createCommitOnBranch: { commit: { oid: "new-commit-sha" } },
+    });
+    const provider = new GitHubStorageProvider(config);
+
+    const sha = await provider.commit(
+      [
+        { path: "users.json", content: [{ id: "1" }] },
+        { path: "old.json", content: null },
+      ],
+      "Batch update\n\nMore details"
+    );
+
+    expect(sha).toBe("new-commit-sha");
+    expect(mockGraphql).toHaveBeenCalledTimes(2);
+    expect(mockGraphql.mock.calls[0][1]).toEqual({
+      owner: "test-owner",
+      repo: "test-repo",
+      ref: "refs/heads/data",
+    });
+    expect(mockGraphql.mock.calls[1][1]).toEqual({
+      input: {
+        branch: {
+          repositoryNameWithOwner: "test-owner/test-repo",
+          branchName: "data",
+        },
+        expectedHeadOid: headOid,
+        message: { headline: "Batch update", body: "More details" },
+        fileChanges: {
+          additions: [
+            {
+              path: "users.json",
+              contents: btoa(JSON.stringify([{ id: "1" }], null, 2)),
+            },
+          ],
+          deletions: [{ path: "old.json" }],
+        },
+      },
+    });
+    for (const fn of Object.values(mockGit)) {
+      expect(fn).not.toHaveBeenCalled();
+    }
+  });
+
+  it("should cache written files under their Git blob SHA", async () => {
+    mockHead();
+    mockGraphql.mockResolvedValueOnce({
+      createCommitOnBranch: { commit: { oid: "new-commit-sha" } },
+    });
+    const provider = new GitHubStorageProvider({ ...config, cacheTTL: 60_000 });
+
+    await provider.commit([{ path: "users.json", content: [] }], "msg");
+
+    expect(await provider.readJson("users.json")).toEqual({
+      data: [],
+      sha: gitBlobSha("[]"),
+    });
+    expect(mockRepos.getContent).not.toHaveBeenCalled();
+  });
+
+  it("should map STALE_DATA to ConcurrencyError", async () => {
+    mockHead();
+    mockGraphql.mockRejectedValueOnce(
+      Object.assign(new Error("Expected branch to point to aaaa"), {
+        errors: [{ type: "STALE_DATA", message: "Expected branch to point to aaaa" }],
+      })
+    );
+    const provider = new GitHubStorageProvider(config);
+
+    await expect(
+      provider.commit([{ path: "users.json", content: [] }], "msg")
+    ).rejects.toThrow(ConcurrencyError);
+  });
+
+  describe("after a failure that may have been applied", () => {
+    const serverError = Object.assign(new Error("Bad Gateway"), { status: 502 });
+    const content = [{ id: "1" }];
+
+    function mockHeadAfter(
+      parent: string,
+      headline: string,
+      fileOid: string | null
+    ) {
+      mockGraphql.mockResolvedValueOnce({
+        repository: {
+          ref: {
+            target: {
+              oid: "applied-sha",
+              messageHeadline: headline,
+              parents: { nodes: [{ oid: parent }] },
+              file0: fileOid ? { oid: fileOid } : null,
+            },
+          },
+        },
+      });
+    }
+
+    it("should report the commit if GitHub applied it", async () => {
+      mockHead();
+      mockGraphql.mockRejectedValueOnce(serverError);
+      mockHeadAfter(headOid, "msg", gitBlobSha(JSON.stringify(content, null, 2)));
+      const provider = new GitHubStorageProvider({ ...config, retry: { baseDelay: 1 } });
+
+      expect(
+        await provider.commit([{ path: "users.json", content }], "msg")
+      ).toBe("applied-sha");
+      // The mutation was sent once and never repeated with the old head
+      expect(
+        mockGraphql.mock.calls.filter(([query]) => query.includes("mutation"))
+      ).toHaveLength(1);
+      expect(mockGraphql.mock.calls[2][1]).toMatchObject({ path0: "users.json" });
+    });
+
+    it("should rethrow the failure if the head is another commit", async () => {
+      mockHead();
+      mockGraphql.mockRejectedValueOnce(serverError);
+      mockHeadAfter(headOid, "someone else", gitBlobSha("[]"));
+      const provider = new GitHubStorageProvider({ ...config, retry: { baseDelay: 1 } });
+
+      const error = await provider
+        .commit([{ path: "users.json", content }], "msg")
+        .catch((e) => e);
+      expect(error).toBe(serverError);
+      expect(error).not.toBeInstanceOf(ConcurrencyError);
+    });
+  });
+
+  it("should throw a 404 error when the branch does not exist", async () => {
+    mockGraphql.mockResolvedValueOnce({ repository: { ref: null } });
+    const provider = new GitHubStorageProvider(config);
+
+    await expect(
+      provider.commit([{ path: "users.json", content: [] }], "msg")
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("should be used by GitHubDB transactions when configured", async () => {
+    mockRepos.getContent.mockRejectedValue({ status: 404 });
+    mockHead();
+    mockGraphql.mockResolvedValueOnce({
+      createCommitOnBranch: { commit: { oid: "tx-commit-sha" } },
+    });
+    const db = new GitHubDB(config);
+
+    const sha = await db.transaction(async (tx) => {
+      await tx.collection("users").create({ id: "1" });
+      await tx.collection("logs").create({ id: "L1" });
+    });
+
+    expect(sha).toBe("tx-commit-sha");
+    expect(mockGit.createTree).not.toHaveBeenCalled();
+  });
+});
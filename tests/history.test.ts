@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Collection } from "../src/ui/collection.js";
+import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { IStorageProvider, Revision } from "../src/core/types.js";
+
+const { mockRepos } = vi.hoisted(() => ({
+  mockRepos: {
+    listCommits: vi.fn(),
+    getContent: vi.fn(),
+  },
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      repos = mockRepos;
+    },
+  };
+});
+
+function revision<T>(sha: string, data: T | null): Revision<T> {
+  return {
+    sha,
+    author: { name: "Alice", email: "alice@example.com" },
+    timestamp: `2024-01-0${sha.slice(-1)}T00:00:00Z`,
+    message: `Commit ${sha}`,
+    data,
+  };
+}
+
+describe("History API", () => {
+  interface User {
+    id: string;
+    name: string;
+  }
+
+  let mockStorage: IStorageProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage = {
+      testConnection: vi.fn(),
+      exists: vi.fn().mockResolvedValue(true),
+      readJson: vi.fn(),
+      writeJson: vi.fn(),
+      deleteFile: vi.fn(),
+      listDirectory: vi.fn(),
+      commit: vi.fn(),
+      getHistory: vi.fn(),
+    };
+  });
+
+  describe("Collection.history", () => {
+    it("should return the history of a sharded document file", async () => {
+      const users = new Collection<User>("users", mockStorage, {
+        strategy: "sharded",
+      });
+      mockStorage.getHistory = vi
+        .fn()
+        .mockResolvedValue([
+          revision("c2", { id: "1", name: "Alicia" }),
+          revision("c1", { id: "1", name: "Alice" }),
+        ]);
+
+      const result = await users.history("1");
+
+      expect(mockStorage.getHistory).toHaveBeenCalledWith("users/1.json");
+      expect(result.map((r) => r.data?.name)).toEqual(["Alicia", "Alice"]);
+      expect(result[0].author.name).toBe("Alice");
+    });
+
+    it("should only include commits that changed the document in single-file mode", async () => {
+      const users = new Collection<User>("users", mockStorage);
+      mockStorage.getHistory = vi.fn().mockResolvedValue([
+        revision("c5", [{ id: "2", name: "Bob" }]),
+        revision("c4", [
+          { id: "1", name: "Alicia" },
+          { id: "2", name: "Bob" },
+        ]),
+        revision("c3", [
+          { id: "1", name: "Alice" },
+          { id: "2", name: "Bob" },
+        ]),
+        revision("c2", [{ id: "1", name: "Alice" }]),
+        revision("c1", []),
+      ]);
+
+      const result = await users.history("1");
+
+      expect(mockStorage.getHistory).toHaveBeenCalledWith("users.json");
+      expect(result.map((r) => r.sha)).toEqual(["c5", "c4", "c2"]);
+      expect(result.map((r) => r.data)).toEqual([
+        null,
+        { id: "1", name: "Alicia" },
+        { id: "1", name: "Alice" },
+      ]);
+    });
+
+    it("should apply afterRead middleware to snapshots", async () => {
+      const users = new Collection<User>("users", mockStorage, {
+        strategy: "sharded",
+        middleware: [
+          { afterRead: (item) => ({ ...item, name: item.name.toUpperCase() }) },
+        ],
+      });
+      mockStorage.getHistory = vi
+        .fn()
+        .mockResolvedValue([revision("c1", { id: "1", name: "Alice" })]);
+
+      const result = await users.history("1");
+      expect(result[0].data?.name).toBe("ALICE");
+    });
+  });
+
+  describe("Collection.collectionHistory", () => {
+    it("should return every revision of the collection file", async () => {
+      const users = new Collection<User>("users", mockStorage);
+      mockStorage.getHistory = vi.fn().mockResolvedValue([
+        revision("c2", [{ id: "1", name: "Alice" }]),
+        revision("c1", []),
+      ]);
+
+      const result = await users.collectionHistory();
+      expect(result).toHaveLength(2);
+      expect(result[0].data).toEqual([{ id: "1", name: "Alice" }]);
+    });
+
+    it("should throw for sharded collections", async () => {
+      const users = new Collection<User>("users", mockStorage, {
+        strategy: "sharded",
+      });
+      await expect(users.collectionHistory()).rejects.toThrow(
+        "not supported for sharded"
+      );
+    });
+  });
+
+  describe("GitHubStorageProvider.getHistory", () => {
+    const config = {
+      accessToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+    };
+
+    function encode(data: unknown) {
+      return Buffer.from(JSON.stringify(data)).toString("base64");
+    }
+
+    it("should list commits for the path and load content at each revision", async () => {
+      const provider = new GitHubStorageProvider(config);
+      mockRepos.listCommits.mockResolvedValue({
+        data: [
+          {
+            sha: "c2",
+            commit: {
+              author: { name: "Bob", email: "bob@example.com", date: "2024-01-02T00:00:00Z" },
+              message: "Delete users",
+            },
+          },
+          {
+            sha: "c1",
+            commit: {
+              author: { name: "Alice", email: "alice@example.com", date: "2024-01-01T00:00:00Z" },
+              message: "Create users",
+            },
+          },
+        ],
+      });
+      const notFound: any = new Error("Not Found");
+      notFound.status = 404;
+      mockRepos.getContent.mockImplementation(async ({ ref }) => {
+        if (ref === "c2") throw notFound;
+        return { data: { content: encode([{ id: "1" }]), sha: "blob-1" } };
+      });
+
+      const result = await provider.getHistory("users.json");
+
+      expect(mockRepos.listCommits).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "users.json", sha: "main" })
+      );
+      expect(result).toEqual([
+        {
+          sha: "c2",
+          author: { name: "Bob", email: "bob@example.com" },
+          timestamp: "2024-01-02T00:00:00Z",
+          message: "Delete users",
+          data: null,
+        },
+        {
+          sha: "c1",
+          author: { name: "Alice", email: "alice@example.com" },
+          timestamp: "2024-01-01T00:00:00Z",
+          message: "Create users",
+          data: [{ id: "1" }],
+        },
+      ]);
+    });
+
+    it("should limit the number of revision reads in flight", async () => {
+      const provider = new GitHubStorageProvider(config);
+      const commits = Array.from({ length: 150 }, (_, i) => ({
+        sha: `c${i}`,
+        commit: { author: { name: "A", email: "a@example.com", date: "" }, message: "m" },
+      }));
+      mockRepos.listCommits.mockImplementation(async ({ page }) => ({
+        data: commits.slice((page - 1) * 100, page * 100),
+      }));
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockRepos.getContent.mockImplementation(async ({ ref }) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return { data: { content: encode({ ref }), sha: "blob" } };
+      });
+
+      const result = await provider.getHistory<{ ref: string }>("users.json");
+
+      expect(result.map((r) => r.data?.ref)).toEqual(commits.map((c) => c.sha));
+      expect(maxInFlight).toBe(8);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { gitBlobSha } from "../src/infrastructure/sha1.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { Collection } from "../src/ui/collection.js";
+import { Transaction } from "../src/ui/transaction.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+describe("InMemoryStorageProvider", () => {
+  let provider: InMemoryStorageProvider;
+  let clock: number;
+
+  beforeEach(() => {
+    clock = Date.parse("2024-01-01T00:00:00Z");
+    provider = new InMemoryStorageProvider({
+      now: () => new Date((clock += 60_000)),
+    });
+  });
+
+  it("should compute Git blob SHAs for stored files", async () => {
+    const sha = await provider.writeJson("a.json", { a: 1 }, "msg");
+    // printf '{\n  "a": 1\n}' | git hash-object --stdin
+    expect(sha).toBe("885e71c6ccde356ddf7c0332f9ea37106920d825");
+    expect(gitBlobSha('{\n  "a": 1\n}')).toBe(sha);
+    expect(await provider.readJson("a.json")).toEqual({ data: { a: 1 }, sha });
+  });
+
+  it("should seed the repository from initialData", async () => {
+    const seeded = new InMemoryStorageProvider({
+      initialData: { "users.json": [{ id: "1" }] },
+    });
+    expect((await seeded.readJson("users.json")).data).toEqual([{ id: "1" }]);
+    expect(await seeded.getHistory("users.json")).toHaveLength(1);
+  });
+
+  it("should throw a 404 error for missing files", async () => {
+    await expect(provider.readJson("missing.json")).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(await provider.exists("missing.json")).toBe(false);
+  });
+
+  it("should reject stale SHAs with ConcurrencyError", async () => {
+    const sha = await provider.writeJson("users.json", [], "first");
+    await provider.writeJson("users.json", [{ id: "1" }], "second", sha);
+
+    await expect(
+      provider.writeJson("users.json", [{ id: "2" }], "third", sha)
+    ).rejects.toThrow(ConcurrencyError);
+    await expect(provider.deleteFile("users.json", "del", sha)).rejects.toThrow(
+      ConcurrencyError
+    );
+  });
+
+  it("should list files and subdirectories", async () => {
+    await provider.commit(
+      [
+        { path: "users/1.json", content: { id: "1" } },
+        { path: "users/2.json", content: { id: "2" } },
+        { path: "users/archive/3.json", content: { id: "3" } },
+      ],
+      "seed"
+    );
+
+    const entries = await provider.listDirectory("users");
+    expect(entries.map((e) => [e.path, e.type])).toEqual([
+      ["users/1.json", "file"],
+      ["users/2.json", "file"],
+      ["users/archive", "dir"],
+    ]);
+    expect(await provider.exists("users/")).toBe(true);
+    expect(await provider.listDirectory("missing")).toEqual([]);
+  });
+
+  it("should apply a batch of changes as a single commit", async () => {
+    await provider.writeJson("old.json", {}, "seed");
+    await provider.commit(
+      [
+        { path: "a.json", content: [1] },
+        { path: "old.json", content: null },
+      ],
+      "batch"
+    );
+
+    expect(await provider.exists("old.json")).toBe(false);
+    const history = await provider.getHistory("a.json");
+    expect(history.map((h) => h.message)).toEqual(["batch"]);
+  });
+
+  it("should record history per path, newest first", async () => {
+    await provider.writeJson("a.json", { v: 1 }, "create a");
+    await provider.writeJson("b.json", { v: 1 }, "create b");
+    await provider.writeJson("a.json", { v: 2 }, "update a");
+    await provider.deleteFile(
+      "a.json",
+      "delete a",
+      (await provider.readJson("a.json")).sha
+    );
+
+    const history = await provider.getHistory<{ v: number }>("a.json");
+    expect(history.map((h) => [h.message, h.data])).toEqual([
+      ["delete a", null],
+      ["update a", { v: 2 }],
+      ["create a", { v: 1 }],
+    ]);
+  });
+
+  it("should resolve branches, tags, commit SHAs and dates", async () => {
+    await provider.writeJson("a.json", { v: 1 }, "v1");
+    provider.tag("v1");
+    const afterFirst = new Date(clock);
+    await provider.writeJson("a.json", { v: 2 }, "v2");
+
+    const head = await provider.resolveRef("main");
+    const tagged = await provider.resolveRef("v1");
+    expect(head).not.toBe(tagged);
+    expect(await provider.resolveRef(tagged)).toBe(tagged);
+    expect(await provider.resolveRef(tagged.slice(0, 7))).toBe(tagged);
+    expect(await provider.resolveRef(afterFirst)).toBe(tagged);
+    expect((await provider.readJson("a.json", tagged)).data).toEqual({ v: 1 });
+    await expect(provider.resolveRef("nope")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  describe("as a test double", () => {
+    interface User {
+      id: string;
+      name: string;
+    }
+
+    it("should support Collection CRUD, history and asOf reads", async () => {
+      const users = new Collection<User>("users", provider, {
+        strategy: "sharded",
+      });
+      await users.create({ id: "1", name: "Alice" });
+      const before = await provider.resolveRef("main");
+      await users.update("1", { name: "Alicia" });
+
+      expect(await users.findById("1")).toEqual({ id: "1", name: "Alicia" });
+      expect(await users.findById("1", { asOf: before })).toEqual({
+        id: "1",
+        name: "Alice",
+      });
+      expect((await users.history("1")).map((r) => r.data?.name)).toEqual([
+        "Alicia",
+        "Alice",
+      ]);
+
+      await users.delete("1");
+      expect(await users.find()).toEqual([]);
+    });
+
+    it("should support transactions", async () => {
+      const tx = new Transaction(provider);
+      await tx.collection<User>("users").create({ id: "1", name: "Alice" });
+      await tx.collection("logs").create({ id: "L1" });
+      const sha = await tx.commit("batch");
+
+      expect(await provider.resolveRef("main")).toBe(sha);
+      expect((await provider.readJson("logs.json")).data).toEqual([
+        { id: "L1" },
+      ]);
+    });
+
+    it("should surface conflicts between two collection instances", async () => {
+      const first = new Collection<User>("users", provider);
+      const second = new Collection<User>("users", provider);
+      await first.create({ id: "1", name: "Alice" });
+      await second.find();
+      await first.update("1", { name: "Alicia" });
+
+      await expect(second.update("1", { name: "Ali" })).rejects.toThrow(
+        ConcurrencyError
+      );
+    });
+
+    it("should be selectable through the GitHubDB config", async () => {
+      const db = new GitHubDB({
+        provider: "memory",
+        initialData: { "users.json": [{ id: "1", name: "Alice" }] },
+      });
+      expect(await db.connect()).toBe(true);
+      expect(await db.collection<User>("users").findById("1")).toEqual({
+        id: "1",
+        name: "Alice",
+      });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { Migration, strategyMigration } from "../src/ui/migrations.js";
+
+interface Counter {
+  id: string;
+  value: number;
+}
+
+function createDb(storage: InMemoryStorageProvider): GitHubDB {
+  const db = new GitHubDB({ provider: "memory" });
+  // @ts-ignore - injecting shared storage
+  db.storage = storage;
+  return db;
+}
+
+const increment = (id: string): Migration => ({
+  id,
+  up: async (tx) => {
+    const counters = tx.collection<Counter>("counters");
+    const counter = await counters.findById("c");
+    if (counter) {
+      await counters.update("c", { value: counter.value + 1 });
+    } else {
+      await counters.create({ id: "c", value: 1 });
+    }
+  },
+});
+
+describe("Migrations", () => {
+  let storage: InMemoryStorageProvider;
+  let db: GitHubDB;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider();
+    db = createDb(storage);
+  });
+
+  it("should apply each migration once, in order, with its record in one commit", async () => {
+    const commit = vi.spyOn(storage, "commit");
+
+    expect(await db.migrate([increment("001"), increment("002")])).toEqual({
+      applied: ["001", "002"],
+      skipped: [],
+    });
+    expect(commit).toHaveBeenCalledTimes(2);
+    expect(commit.mock.calls[0][0].map((c) => c.path).sort()).toEqual([
+      "_migrations.json",
+      "counters.json",
+    ]);
+    expect(commit.mock.calls[0][1]).toBe("Migration 001");
+
+    expect(
+      await db.migrate([increment("001"), increment("002"), increment("003")])
+    ).toEqual({ applied: ["003"], skipped: ["001", "002"] });
+    expect((await db.collection<Counter>("counters").findById("c"))?.value).toBe(3);
+
+    const records = (await storage.readJson<any[]>("_migrations.json")).data;
+    expect(records.map((r) => r.id)).toEqual(["001", "002", "003"]);
+    expect(new Date(records[0].appliedAt).toISOString()).toBe(
+      records[0].appliedAt
+    );
+  });
+
+  it("should stop at a failing migration without recording it", async () => {
+    const failing: Migration = {
+      id: "002",
+      up: async (tx) => {
+        await tx.collection("logs").create({ id: "l1" });
+        throw new Error("Bad data");
+      },
+    };
+
+    await expect(
+      db.migrate([increment("001"), failing, increment("003")])
+    ).rejects.toThrow("Bad data");
+
+    const status = await db.migrationStatus([
+      increment("001"),
+      failing,
+      increment("003"),
+    ]);
+    expect(status.map((s) => [s.id, s.appliedAt !== null])).toEqual([
+      ["001", true],
+      ["002", false],
+      ["003", false],
+    ]);
+    expect(await storage.exists("logs.json")).toBe(false);
+  });
+
+  it("should apply a migration only once when two processes migrate at once", async () => {
+    const other = createDb(storage);
+
+    const results = await Promise.all([
+      db.migrate([increment("001")]),
+      other.migrate([increment("001")]),
+    ]);
+
+    expect(results.flatMap((r) => r.applied)).toEqual(["001"]);
+    expect(results.flatMap((r) => r.skipped)).toEqual(["001"]);
+    expect((await db.collection<Counter>("counters").findById("c"))?.value).toBe(1);
+  });
+
+  it("should reject duplicate migration ids", async () => {
+    await expect(
+      db.migrate([increment("001"), increment("001")])
+    ).rejects.toThrow("Duplicate migration id 001");
+  });
+
+  it("should report pending and applied migrations with descriptions", async () => {
+    const convert = strategyMigration("users", "single-file", "sharded");
+    await db.migrate([increment("001")]);
+
+    expect(await db.migrationStatus([increment("001"), convert])).toEqual([
+      { id: "001", appliedAt: expect.any(String) },
+      {
+        id: "convert-users-to-sharded",
+        description: "Convert users from single-file to sharded",
+        appliedAt: null,
+      },
+    ]);
+  });
+});
+
+describe("strategyMigration", () => {
+  let storage: InMemoryStorageProvider;
+  let db: GitHubDB;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({
+      initialData: {
+        "users.json": [
+          { id: "1", name: "Alice" },
+          { id: "2", name: "Bob" },
+        ],
+      },
+    });
+    db = createDb(storage);
+  });
+
+  it("should convert a single-file collection to sharded and back", async () => {
+    await db.migrate([strategyMigration("users", "single-file", "sharded")]);
+
+    expect(await storage.exists("users.json")).toBe(false);
+    const sharded = db.collection("users", { strategy: "sharded" });
+    expect(await sharded.findById("2")).toEqual({ id: "2", name: "Bob" });
+
+    await db.migrate([
+      strategyMigration("users", "sharded", "single-file", { id: "users-back" }),
+    ]);
+
+    expect((await storage.listDirectory("users")).length).toBe(0);
+    expect(await db.collection("users").find()).toEqual([
+      { id: "1", name: "Alice" },
+      { id: "2", name: "Bob" },
+    ]);
+  });
+
+  it("should refuse documents without an id", async () => {
+    storage = new InMemoryStorageProvider({
+      initialData: { "users.json": [{ id: "1" }, { name: "No id" }] },
+    });
+    db = createDb(storage);
+
+    await expect(
+      db.migrate([strategyMigration("users", "single-file", "sharded")])
+    ).rejects.toThrow(
+      "Cannot convert users: the document at index 1 of users.json has no usable id"
+    );
+    expect(await storage.exists("users.json")).toBe(true);
+  });
+
+  it("should fail without being recorded when the collection is not stored as from", async () => {
+    const convert = strategyMigration("users", "sharded", "single-file");
+
+    await expect(db.migrate([convert])).rejects.toThrow(
+      "Cannot convert users: it is not stored as sharded"
+    );
+    expect((await db.migrationStatus([convert]))[0].appliedAt).toBeNull();
+
+    // Nothing to convert in an empty collection is not a mismatch
+    expect(
+      (await db.migrate([strategyMigration("posts", "sharded", "bucketed")])).applied
+    ).toEqual(["convert-posts-to-bucketed"]);
+  });
+
+  it("should refuse to overwrite data in the target layout", async () => {
+    await storage.writeJson("users/3.json", { id: "3" }, "Add shard");
+
+    await expect(
+      db.migrate([strategyMigration("users", "single-file", "sharded")])
+    ).rejects.toThrow("Collection users already has data in users/");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { Indexer } from "../src/core/indexer.js";
+import { getPath, getPathValues } from "../src/core/path.js";
+
+interface Customer {
+  id: string;
+  address: { city: string; zip?: string } | null;
+  tags: { name: string }[];
+  meta: { createdAt: string };
+}
+
+const customers: Customer[] = [
+  {
+    id: "1",
+    address: { city: "Oslo" },
+    tags: [{ name: "vip" }, { name: "beta" }],
+    meta: { createdAt: "2024-03-01" },
+  },
+  {
+    id: "2",
+    address: { city: "Bergen" },
+    tags: [{ name: "beta" }],
+    meta: { createdAt: "2024-01-15" },
+  },
+  {
+    id: "3",
+    address: null,
+    tags: [],
+    meta: { createdAt: "2024-02-10" },
+  },
+];
+
+describe("Dot paths", () => {
+  it("should read nested values and expand [*] over arrays", () => {
+    expect(getPath(customers[0], "address.city")).toBe("Oslo");
+    expect(getPath(customers[2], "address.city")).toBeUndefined();
+    expect(getPathValues(customers[0], "tags[*].name")).toEqual(["vip", "beta"]);
+    expect(getPathValues(customers[2], "tags[*].name")).toEqual([]);
+    expect(getPathValues({ grid: [[1, 2], [3]] }, "grid[*][*]")).toEqual([1, 2, 3]);
+  });
+
+  it("should index items under each of their array values", () => {
+    const indexer = new Indexer<Customer>();
+    indexer.build(customers, ["address.city", "tags[*].name"]);
+
+    expect(indexer.query("tags[*].name", "beta")?.map((c) => c.id)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(indexer.query("address.city", undefined)?.map((c) => c.id)).toEqual([
+      "3",
+    ]);
+
+    indexer.update(customers[1], { ...customers[1], tags: [{ name: "vip" }] });
+    expect(indexer.query("tags[*].name", "beta")?.map((c) => c.id)).toEqual([
+      "1",
+    ]);
+    expect(indexer.query("tags[*].name", "vip")).toHaveLength(2);
+  });
+});
+
+describe("Collection queries on nested fields", () => {
+  let collection: Collection<Customer>;
+
+  beforeEach(() => {
+    collection = new Collection<Customer>(
+      "customers",
+      new InMemoryStorageProvider({ initialData: { "customers.json": customers } })
+    );
+  });
+
+  it("should filter on dot paths", async () => {
+    const results = await collection.find({
+      filters: [{ field: "address.city", operator: "in", value: ["Oslo", "Bergen"] }],
+    });
+    expect(results.map((c) => c.id)).toEqual(["1", "2"]);
+  });
+
+  it("should match any array element with [*]", async () => {
+    const ids = async (operator: "eq" | "neq", value: string) =>
+      (
+        await collection.find({
+          filters: [{ field: "tags[*].name", operator, value }],
+        })
+      ).map((c) => c.id);
+
+    expect(await ids("eq", "vip")).toEqual(["1"]);
+    // No element may be equal
+    expect(await ids("neq", "vip")).toEqual(["2", "3"]);
+    // Second round is answered from the lazily built index
+    expect(await ids("eq", "beta")).toEqual(["1", "2"]);
+    expect(await ids("eq", "vip")).toEqual(["1"]);
+  });
+
+  it("should keep nested indexes in sync with writes", async () => {
+    const byCity = () =>
+      collection.find({
+        filters: [{ field: "address.city", operator: "eq", value: "Oslo" }],
+      });
+    expect(await byCity()).toHaveLength(1);
+
+    await collection.update("2", { address: { city: "Oslo" } });
+    await collection.create({
+      id: "4",
+      address: { city: "Oslo" },
+      tags: [],
+      meta: { createdAt: "2024-04-01" },
+    });
+    await collection.delete("1");
+
+    expect((await byCity()).map((c) => c.id).sort()).toEqual(["2", "4"]);
+  });
+
+  it("should sort on dot paths", async () => {
+    const results = await collection.find({
+      sort: [{ field: "meta.createdAt", order: "desc" }],
+    });
+    expect(results.map((c) => c.id)).toEqual(["1", "3", "2"]);
+  });
+});
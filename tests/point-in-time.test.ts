@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Collection } from "../src/ui/collection.js";
+import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { IStorageProvider } from "../src/core/types.js";
+
+const { mockRepos } = vi.hoisted(() => ({
+  mockRepos: {
+    getContent: vi.fn(),
+    getCommit: vi.fn(),
+    listCommits: vi.fn(),
+  },
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      repos = mockRepos;
+    },
+  };
+});
+
+const PAST_SHA = "a".repeat(40);
+
+describe("Point-in-time reads (asOf)", () => {
+  interface User {
+    id: string;
+    name: string;
+  }
+
+  let mockStorage: IStorageProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStorage = {
+      testConnection: vi.fn(),
+      exists: vi.fn().mockResolvedValue(true),
+      readJson: vi.fn().mockImplementation(async (_path, ref) => ({
+        data: ref
+          ? [{ id: "1", name: "Alice" }]
+          : [{ id: "1", name: "Alicia" }],
+        sha: ref ? "old-sha" : "head-sha",
+      })),
+      writeJson: vi.fn(),
+      deleteFile: vi.fn(),
+      listDirectory: vi.fn(),
+      commit: vi.fn(),
+      getHistory: vi.fn(),
+      resolveRef: vi.fn().mockResolvedValue(PAST_SHA),
+    };
+  });
+
+  describe("Collection", () => {
+    it("should read find() results at the resolved commit", async () => {
+      const users = new Collection<User>("users", mockStorage);
+      const date = new Date("2024-01-01T00:00:00Z");
+
+      const results = await users.find({ asOf: date });
+
+      expect(mockStorage.resolveRef).toHaveBeenCalledWith(date);
+      expect(mockStorage.readJson).toHaveBeenCalledWith("users.json", PAST_SHA);
+      expect(results).toEqual([{ id: "1", name: "Alice" }]);
+    });
+
+    it("should apply query options to snapshot reads", async () => {
+      const users = new Collection<User>("users", mockStorage);
+      const results = await users.find({
+        asOf: "v1.0",
+        filters: [{ field: "name", operator: "eq", value: "Bob" }],
+      });
+      expect(results).toEqual([]);
+    });
+
+    it("should not populate the in-memory state from snapshot reads", async () => {
+      const users = new Collection<User>("users", mockStorage);
+      await users.find({ asOf: "v1.0" });
+
+      const current = await users.find();
+      expect(current).toEqual([{ id: "1", name: "Alicia" }]);
+      expect(mockStorage.readJson).toHaveBeenLastCalledWith("users.json");
+    });
+
+    it("should read a sharded document at the resolved commit", async () => {
+      const users = new Collection<User>("users", mockStorage, {
+        strategy: "sharded",
+      });
+      mockStorage.readJson = vi.fn().mockResolvedValue({
+        data: { id: "1", name: "Alice" },
+        sha: "old-sha",
+      });
+
+      const result = await users.findById("1", { asOf: "main~3" });
+
+      expect(mockStorage.readJson).toHaveBeenCalledWith(
+        "users/1.json",
+        PAST_SHA
+      );
+      expect(result).toEqual({ id: "1", name: "Alice" });
+    });
+
+    it("should return null when the document did not exist at that commit", async () => {
+      const users = new Collection<User>("users", mockStorage, {
+        strategy: "sharded",
+      });
+      const notFound: any = new Error("Not Found");
+      notFound.status = 404;
+      mockStorage.readJson = vi.fn().mockRejectedValue(notFound);
+
+      const result = await users.findById("1", { asOf: PAST_SHA });
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("GitHubStorageProvider", () => {
+    const config = {
+      accessToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+    };
+
+    let provider: GitHubStorageProvider;
+
+    beforeEach(() => {
+      provider = new GitHubStorageProvider(config);
+      mockRepos.getContent.mockResolvedValue({
+        data: {
+          content: Buffer.from(JSON.stringify([{ id: "1" }])).toString(
+            "base64"
+          ),
+          sha: "old-blob-sha",
+        },
+      });
+    });
+
+    it("should resolve a Date to the latest commit before it", async () => {
+      mockRepos.listCommits.mockResolvedValue({ data: [{ sha: "c1" }] });
+      const sha = await provider.resolveRef(new Date("2024-01-01T00:00:00Z"));
+
+      expect(sha).toBe("c1");
+      expect(mockRepos.listCommits).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sha: "main",
+          until: "2024-01-01T00:00:00.000Z",
+          per_page: 1,
+        })
+      );
+    });
+
+    it("should resolve branch and tag names through getCommit", async () => {
+      mockRepos.getCommit.mockResolvedValue({ data: { sha: "c2" } });
+      expect(await provider.resolveRef("v1.0")).toBe("c2");
+      expect(await provider.resolveRef(PAST_SHA)).toBe(PAST_SHA);
+      expect(mockRepos.getCommit).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cache snapshot reads by commit without touching the head cache", async () => {
+      await provider.readJson("users.json", PAST_SHA);
+      await provider.readJson("users.json", PAST_SHA);
+
+      expect(mockRepos.getContent).toHaveBeenCalledTimes(1);
+      expect(mockRepos.getContent).toHaveBeenCalledWith(
+        expect.objectContaining({ path: "users.json", ref: PAST_SHA })
+      );
+      expect((provider as any).staleCache.has("users.json")).toBe(false);
+
+      // A head read must still go to GitHub without a conditional header
+      await provider.readJson("users.json");
+      expect(mockRepos.getContent).toHaveBeenLastCalledWith(
+        expect.objectContaining({ headers: {} })
+      );
+    });
+  });
+});
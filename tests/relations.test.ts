@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { Collection } from "../src/ui/collection.js";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { IStorageProvider } from "../src/core/types.js";
+
+describe("Relationships & Populate", () => {
+  const config = {
+    accessToken: "test-token",
+    owner: "test-owner",
+    repo: "test-repo",
+  };
+
+  const files: Record<string, any[]> = {
+    "customers.json": [
+      { id: "c1", name: "Alice" },
+      { id: "c2", name: "Bob" },
+    ],
+    "orders.json": [
+      { id: "o1", customerId: "c1", productIds: ["p1", "p2"] },
+      { id: "o2", customerId: "c2", productIds: [] },
+      { id: "o3", customerId: "c1", productIds: ["p2"] },
+    ],
+    "products.json": [
+      { id: "p1", title: "Lamp" },
+      { id: "p2", title: "Desk" },
+    ],
+  };
+
+  let mockStorage: IStorageProvider;
+  let db: GitHubDB;
+
+  beforeEach(() => {
+    mockStorage = {
+      testConnection: vi.fn(),
+      exists: vi.fn().mockResolvedValue(true),
+      readJson: vi.fn().mockImplementation(async (path: string) => ({
+        data: files[path],
+        sha: `${path}-sha`,
+      })),
+      writeJson: vi.fn(),
+      deleteFile: vi.fn(),
+      listDirectory: vi.fn(),
+      commit: vi.fn(),
+      getHistory: vi.fn(),
+      resolveRef: vi.fn(),
+    };
+    db = new GitHubDB(config);
+    // @ts-ignore - injecting mock storage
+    db.storage = mockStorage;
+  });
+
+  function orders() {
+    return db.collection<any>("orders", {
+      relations: {
+        customer: {
+          type: "one-to-one",
+          collection: "customers",
+          localField: "customerId",
+        },
+        products: {
+          type: "one-to-many",
+          collection: "products",
+          localField: "productIds",
+        },
+      },
+    });
+  }
+
+  it("should populate one-to-one relations via a local id field", async () => {
+    const results = await orders().find({ populate: ["customer"] });
+
+    expect(results.map((o) => o.customer.name)).toEqual([
+      "Alice",
+      "Bob",
+      "Alice",
+    ]);
+  });
+
+  it("should populate one-to-many relations via an id array", async () => {
+    const order = await orders().findById("o1", { populate: ["products"] });
+    expect(order.products.map((p: any) => p.title)).toEqual(["Lamp", "Desk"]);
+  });
+
+  it("should populate one-to-many relations via a foreign key", async () => {
+    const customers = db.collection<any>("customers", {
+      relations: {
+        orders: {
+          type: "one-to-many",
+          collection: "orders",
+          foreignField: "customerId",
+        },
+      },
+    });
+
+    const alice = await customers.findById("c1", { populate: ["orders"] });
+    expect(alice.orders.map((o: any) => o.id)).toEqual(["o1", "o3"]);
+  });
+
+  it("should load each related collection only once per call", async () => {
+    await orders().find({ populate: ["customer", "products"] });
+
+    const paths = vi.mocked(mockStorage.readJson).mock.calls.map((c) => c[0]);
+    expect(paths.filter((p) => p === "customers.json")).toHaveLength(1);
+    expect(paths.filter((p) => p === "products.json")).toHaveLength(1);
+  });
+
+  it("should resolve relations through registered collections", async () => {
+    db.collection<any>("customers", {
+      middleware: [
+        { afterRead: (item) => ({ ...item, name: item.name.toUpperCase() }) },
+      ],
+    });
+
+    const order = await orders().findById("o2", { populate: ["customer"] });
+    expect(order.customer.name).toBe("BOB");
+  });
+
+  it("should read unregistered targets with the strategy of the relation", async () => {
+    const storage = new InMemoryStorageProvider({
+      initialData: {
+        "orders.json": [{ id: "o1", customerId: "c1" }],
+        "customers/c1.json": { id: "c1", name: "Alice" },
+      },
+    });
+    const relations = {
+      customer: {
+        type: "one-to-one" as const,
+        collection: "customers",
+        localField: "customerId",
+        strategy: "sharded" as const,
+      },
+    };
+
+    const standalone = new Collection<any>("orders", storage, { relations });
+    expect(
+      (await standalone.findById("o1", { populate: ["customer"] })).customer
+    ).toEqual({ id: "c1", name: "Alice" });
+
+    const memoryDb = new GitHubDB({ provider: "memory" });
+    // @ts-ignore - injecting seeded storage
+    memoryDb.storage = storage;
+    await memoryDb.transaction(async (tx) => {
+      const order = await tx
+        .collection<any>("orders", { relations })
+        .findById("o1", { populate: ["customer"] });
+      expect(order.customer.name).toBe("Alice");
+    });
+  });
+
+  it("should not mutate the cached documents", async () => {
+    const collection = orders();
+    await collection.find({ populate: ["customer"] });
+
+    const plain = await collection.find();
+    expect(plain[0]).not.toHaveProperty("customer");
+  });
+
+  it("should throw on unknown relations", async () => {
+    const collection = new Collection<any>("orders", mockStorage);
+    await expect(collection.find({ populate: ["customer"] })).rejects.toThrow(
+      "Unknown relation customer on orders"
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { gzipSync } from "node:zlib";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { parseTar, readTarGz } from "../src/infrastructure/tar.js";
+import { gitBlobSha } from "../src/infrastructure/sha1.js";
+
+const { mockRepos } = vi.hoisted(() => ({
+  mockRepos: {
+    downloadTarballArchive: vi.fn(),
+    getContent: vi.fn(),
+  },
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      repos = mockRepos;
+    },
+  };
+});
+
+const COMMIT = "c0ffee".padEnd(40, "0");
+
+function header(name: string, size: number, type: string): Uint8Array {
+  const block = new Uint8Array(512);
+  const write = (offset: number, value: string) =>
+    block.set(new TextEncoder().encode(value), offset);
+  write(0, name);
+  write(100, "0000644\0");
+  write(124, size.toString(8).padStart(11, "0") + "\0");
+  write(156, type);
+  write(257, "ustar\0");
+  write(148, "        ");
+  const sum = block.reduce((total, byte) => total + byte, 0);
+  write(148, sum.toString(8).padStart(6, "0") + "\0 ");
+  return block;
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = body.length + 1;
+  while (`${length}${body}`.length !== length) length++;
+  return `${length}${body}`;
+}
+
+/** Builds a tar archive the way `git archive` does, with a pax global header. */
+function tar(entries: { name: string; content?: string; type?: string }[]) {
+  const blocks: Uint8Array[] = [];
+  for (const { name, content = "", type = "0" } of entries) {
+    const bytes = new TextEncoder().encode(content);
+    blocks.push(header(name, bytes.length, type));
+    const padded = new Uint8Array(Math.ceil(bytes.length / 512) * 512);
+    padded.set(bytes);
+    blocks.push(padded);
+  }
+  blocks.push(new Uint8Array(1024));
+  return new Uint8Array(Buffer.concat(blocks));
+}
+
+const longName = `${"nested/".repeat(20)}deep.json`;
+const archive = tar([
+  { name: "pax_global_header", type: "g", content: paxRecord("comment", COMMIT) },
+  { name: "owner-repo-c0ffee/", type: "5" },
+  {
+    name: "owner-repo-c0ffee/users.json",
+    content: JSON.stringify([
+      { id: "1", name: "Alice" },
+      { id: "2", name: "Bob" },
+    ]),
+  },
+  { name: "owner-repo-c0ffee/posts/", type: "5" },
+  { name: "owner-repo-c0ffee/posts/p1.json", content: '{"id":"p1","title":"Hi"}' },
+  { name: "owner-repo-c0ffee/posts/p2.json", content: '{"id":"p2","title":"Yo"}' },
+  { name: "PaxHeader", type: "x", content: paxRecord("path", `owner-repo-c0ffee/${longName}`) },
+  { name: "truncated-name", content: "{}" },
+  { name: "././@LongLink", type: "L", content: "owner-repo-c0ffee/gnu/long.json\0" },
+  { name: "gnu-truncated", content: "[]" },
+]);
+
+describe("Tar reader", () => {
+  it("should read files with pax, GNU and global headers", async () => {
+    const { files, globalHeaders } = await readTarGz(gzipSync(archive));
+
+    expect(globalHeaders).toEqual({ comment: COMMIT });
+    expect(files.map((file) => file.path)).toEqual([
+      "owner-repo-c0ffee/users.json",
+      "owner-repo-c0ffee/posts/p1.json",
+      "owner-repo-c0ffee/posts/p2.json",
+      `owner-repo-c0ffee/${longName}`,
+      "owner-repo-c0ffee/gnu/long.json",
+    ]);
+    expect(new TextDecoder().decode(files[1].content)).toBe(
+      '{"id":"p1","title":"Hi"}'
+    );
+  });
+
+  it("should reject a corrupted header", () => {
+    const corrupted = archive.slice();
+    corrupted[1024] ^= 1;
+    expect(() => parseTar(corrupted)).toThrow(
+      "Invalid tar header checksum at offset 1024"
+    );
+  });
+});
+
+describe("Snapshot databases", () => {
+  const config = {
+    accessToken: "test-token",
+    owner: "owner",
+    repo: "repo",
+    retry: false as const,
+    snapshot: true,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRepos.downloadTarballArchive.mockResolvedValue({
+      data: new Uint8Array(gzipSync(archive)).buffer,
+    });
+  });
+
+  it("should serve all collections from one archive download", async () => {
+    const db = new GitHubDB(config);
+
+    expect(await db.collection("users").findById("2")).toEqual({
+      id: "2",
+      name: "Bob",
+    });
+    const posts = db.collection("posts", { strategy: "sharded" });
+    expect((await posts.find()).map((post) => post.id)).toEqual(["p1", "p2"]);
+    expect(await posts.findById("p1")).toEqual({ id: "p1", title: "Hi" });
+    expect(await db.collection("missing").find()).toEqual([]);
+
+    expect(mockRepos.downloadTarballArchive).toHaveBeenCalledTimes(1);
+    expect(mockRepos.downloadTarballArchive).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      ref: "main",
+    });
+    expect(mockRepos.getContent).not.toHaveBeenCalled();
+  });
+
+  it("should report the blob SHAs and commit of the archived files", async () => {
+    const db = new GitHubDB({ ...config, snapshot: { ref: "v1.0" } });
+
+    const { sha } = await db.storage.readJson("posts/p2.json");
+    expect(sha).toBe(gitBlobSha('{"id":"p2","title":"Yo"}'));
+    expect(await db.storage.resolveRef("v1.0")).toBe(COMMIT);
+    expect(await db.storage.listDirectory("")).toEqual([
+      { path: "gnu", sha: "", type: "dir" },
+      { path: "nested", sha: "", type: "dir" },
+      { path: "posts", sha: "", type: "dir" },
+      { path: "users.json", sha: expect.stringMatching(/^[0-9a-f]{40}$/), type: "file" },
+    ]);
+    expect(mockRepos.downloadTarballArchive).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "v1.0" })
+    );
+  });
+
+  it("should be read-only and hold a single commit", async () => {
+    const db = new GitHubDB(config);
+    const users = db.collection("users");
+
+    await expect(users.create({ id: "3", name: "Carol" })).rejects.toThrow(
+      "Snapshot storage is read-only"
+    );
+    await expect(users.find({ asOf: COMMIT })).resolves.toHaveLength(2);
+    await expect(users.find({ asOf: "a".repeat(40) })).rejects.toThrow(
+      `Snapshot only contains commit ${COMMIT}`
+    );
+    await expect(users.history("1")).rejects.toThrow(
+      "History is not available in a snapshot"
+    );
+  });
+
+  it("should download again after a failed attempt", async () => {
+    mockRepos.downloadTarballArchive.mockRejectedValueOnce(
+      Object.assign(new Error("Not Found"), { status: 404 })
+    );
+    const db = new GitHubDB(config);
+
+    expect(await db.connect()).toBe(false);
+    expect(await db.connect()).toBe(true);
+    expect(mockRepos.downloadTarballArchive).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { compareBy } from "../src/core/sort.js";
+import { SortOptions } from "../src/core/types.js";
+
+interface Row {
+  id: string;
+  team: string | null;
+  score?: number | string | null;
+  name: string;
+  joined?: string | Date;
+}
+
+const sorted = (rows: Row[], sort: SortOptions<Row>[]) =>
+  [...rows].sort(compareBy(sort)).map((row) => row.id);
+
+describe("compareBy", () => {
+  const rows: Row[] = [
+    { id: "1", team: "b", score: 10, name: "Émile" },
+    { id: "2", team: "a", score: 30, name: "zoe" },
+    { id: "3", team: "b", score: 20, name: "Adam" },
+    { id: "4", team: null, score: 5, name: "eve" },
+    { id: "5", team: "a", score: 30, name: "Bea" },
+  ];
+
+  it("should let the first key decide and later keys break ties", () => {
+    expect(
+      sorted(rows, [
+        { field: "team", order: "asc" },
+        { field: "score", order: "desc" },
+      ])
+    ).toEqual(["2", "5", "3", "1", "4"]);
+    // Equal on every key: the stored order is kept
+    expect(
+      sorted(rows, [
+        { field: "team", order: "asc" },
+        { field: "score", order: "asc" },
+      ])
+    ).toEqual(["2", "5", "1", "3", "4"]);
+  });
+
+  it("should put nulls last by default and first on request, in either order", () => {
+    expect(sorted(rows, [{ field: "team", order: "desc" }])[4]).toBe("4");
+    expect(
+      sorted(rows, [{ field: "team", order: "desc", nulls: "first" }])
+    ).toEqual(["4", "1", "3", "2", "5"]);
+    expect(
+      sorted(
+        [{ id: "u", team: "a", name: "" }, ...rows.slice(0, 2)],
+        [{ field: "score", order: "asc", nulls: "first" }]
+      )
+    ).toEqual(["u", "1", "2"]);
+  });
+
+  it("should collate strings for the locale", () => {
+    expect(sorted(rows, [{ field: "name", order: "asc" }])).toEqual([
+      "3",
+      "5",
+      "1",
+      "4",
+      "2",
+    ]);
+    const swedish = [
+      { id: "ö", team: null, name: "Östen" },
+      { id: "z", team: null, name: "Zara" },
+      { id: "å", team: null, name: "Åke" },
+    ];
+    expect(sorted(swedish, [{ field: "name", order: "asc", locale: "sv" }])).toEqual([
+      "z",
+      "å",
+      "ö",
+    ]);
+    expect(sorted(swedish, [{ field: "name", order: "asc", locale: "de" }])).toEqual([
+      "å",
+      "ö",
+      "z",
+    ]);
+  });
+
+  it("should order numeric strings by value", () => {
+    const items: Row[] = [
+      { id: "a", team: null, name: "item10", score: "10" },
+      { id: "b", team: null, name: "item9", score: 9 },
+      { id: "c", team: null, name: "item100", score: "100" },
+    ];
+    expect(sorted(items, [{ field: "name", order: "asc" }])).toEqual(["b", "a", "c"]);
+    expect(sorted(items, [{ field: "score", order: "asc" }])).toEqual(["b", "a", "c"]);
+    // Without numeric collation the strings compare character by character
+    expect(
+      sorted(items, [{ field: "name", order: "asc", collation: { numeric: false } }])
+    ).toEqual(["a", "c", "b"]);
+  });
+
+  it("should sort Dates and ISO strings by time", () => {
+    const items: Row[] = [
+      { id: "a", team: null, name: "", joined: "2024-03-01T00:00:00+02:00" },
+      { id: "b", team: null, name: "", joined: new Date("2024-02-29T23:00:00Z") },
+      { id: "c", team: null, name: "", joined: new Date("2024-01-01T00:00:00Z") },
+    ];
+    expect(sorted(items, [{ field: "joined", order: "asc" }])).toEqual([
+      "c",
+      "a",
+      "b",
+    ]);
+  });
+});
+
+describe("Collection.find sorting", () => {
+  it("should apply the first sort key first", async () => {
+    const collection = new Collection<Row>(
+      "rows",
+      new InMemoryStorageProvider({
+        initialData: {
+          "rows.json": [
+            { id: "1", team: "b", name: "x" },
+            { id: "2", team: "a", name: "y" },
+            { id: "3", team: "a", name: "x" },
+          ],
+        },
+      })
+    );
+
+    const results = await collection.find({
+      sort: [
+        { field: "team", order: "asc" },
+        { field: "name", order: "asc" },
+      ],
+    });
+
+    expect(results.map((row) => row.id)).toEqual(["3", "2", "1"]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Collection } from "../src/ui/collection.js";
+import { Transaction } from "../src/ui/transaction.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+interface Event {
+  id: string;
+  type: string;
+}
+
+describe("Collection.convertStrategy", () => {
+  let storage: InMemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({
+      initialData: {
+        "events.json": [
+          { id: "e1", type: "login" },
+          { id: "e2", type: "logout" },
+        ],
+      },
+    });
+  });
+
+  it("should move a single-file collection into shards in one commit", async () => {
+    const events = new Collection<Event>("events", storage);
+    const commit = vi.spyOn(storage, "commit");
+
+    const summary = await events.convertStrategy("sharded");
+
+    expect(summary).toEqual({
+      from: "single-file",
+      to: "sharded",
+      documents: 2,
+      written: ["events/e1.json", "events/e2.json"],
+      deleted: ["events.json"],
+      commit: expect.stringMatching(/^[0-9a-f]{40}$/),
+    });
+    expect(commit).toHaveBeenCalledTimes(1);
+    expect(await storage.exists("events.json")).toBe(false);
+    expect((await storage.readJson("events/e2.json")).data).toEqual({
+      id: "e2",
+      type: "logout",
+    });
+
+    // The instance now reads and writes shards
+    await events.create({ id: "e3", type: "login" });
+    expect(await storage.exists("events/e3.json")).toBe(true);
+    expect((await events.find()).map((e) => e.id).sort()).toEqual([
+      "e1",
+      "e2",
+      "e3",
+    ]);
+  });
+
+  it("should merge shards back into a single file", async () => {
+    await new Collection<Event>("events", storage).convertStrategy("sharded");
+    const events = new Collection<Event>("events", storage, {
+      strategy: "sharded",
+    });
+
+    const summary = await events.convertStrategy("single-file");
+
+    expect(summary.written).toEqual(["events.json"]);
+    expect(summary.deleted.sort()).toEqual(["events/e1.json", "events/e2.json"]);
+    expect(await storage.listDirectory("events")).toEqual([]);
+    expect(await events.findById("e1")).toEqual({ id: "e1", type: "login" });
+  });
+
+  it("should only report the changes in a dry run", async () => {
+    const events = new Collection<Event>("events", storage);
+    const head = await storage.resolveRef("main");
+
+    const summary = await events.convertStrategy("sharded", { dryRun: true });
+
+    expect(summary).toMatchObject({ documents: 2, commit: null });
+    expect(summary.written).toHaveLength(2);
+    expect(await storage.resolveRef("main")).toBe(head);
+    await events.create({ id: "e3", type: "login" });
+    expect((await storage.readJson<Event[]>("events.json")).data).toHaveLength(3);
+  });
+
+  it("should refuse to convert inside a transaction", async () => {
+    const tx = new Transaction(storage);
+    const events = tx.collection<Event>("events");
+
+    await expect(events.convertStrategy("sharded")).rejects.toThrow(
+      "Cannot convert events inside a transaction"
+    );
+    expect(await storage.exists("events.json")).toBe(true);
+    expect(await storage.exists("events/e1.json")).toBe(false);
+    expect(tx.preview()).toEqual([]);
+    // A dry run writes nothing, so it is still allowed
+    expect((await events.convertStrategy("sharded", { dryRun: true })).documents).toBe(2);
+  });
+
+  it("should not commit when the collection is already in the target layout", async () => {
+    const commit = vi.spyOn(storage, "commit");
+    const summary = await new Collection<Event>("events", storage).convertStrategy(
+      "single-file"
+    );
+
+    expect(summary).toMatchObject({ documents: 0, written: [], commit: null });
+    expect(commit).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [[{ type: "login" }], "at index 0 of events.json has no usable id (got undefined)"],
+    [[{ id: "a/b" }], 'has no usable id (got "a/b")'],
+    [[{ id: "e1" }, { id: "e1" }], "more than one document has id e1"],
+  ])("should refuse documents that cannot be sharded: %j", async (items, error) => {
+    storage = new InMemoryStorageProvider({ initialData: { "events.json": items } });
+    const commit = vi.spyOn(storage, "commit");
+
+    await expect(
+      new Collection<any>("events", storage).convertStrategy("sharded")
+    ).rejects.toThrow(error);
+    expect(commit).not.toHaveBeenCalled();
+  });
+
+  it("should fail if the collection changes during the conversion", async () => {
+    const readJson = storage.readJson.bind(storage);
+    vi.spyOn(storage, "readJson").mockImplementationOnce(async (path) => {
+      const response = await readJson(path);
+      await new Collection<Event>("events", storage).create({
+        id: "e3",
+        type: "login",
+      });
+      return response as any;
+    });
+
+    await expect(
+      new Collection<Event>("events", storage).convertStrategy("sharded")
+    ).rejects.toThrow(ConcurrencyError);
+    expect((await readJson<Event[]>("events.json")).data).toHaveLength(3);
+  });
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { GitHubStorageProvider } from "../src/infrastructure/github-storage.js";
+import { Transaction } from "../src/ui/transaction.js";
+import { Collection } from "../src/ui/collection.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+import { ConcurrencyError } from "../src/core/types.js";
+
+const { mockGit, mockRepos, mockGraphql } = vi.hoisted(() => ({
+  mockGit: {
+    getRef: vi.fn(),
+    getCommit: vi.fn(),
+    getTree: vi.fn(),
+    createTree: vi.fn(),
+    createCommit: vi.fn(),
+    updateRef: vi.fn(),
+  },
+  mockRepos: {
+    getContent: vi.fn(),
+  },
+  mockGraphql: vi.fn(),
+}));
+
+vi.mock("@octokit/rest", () => {
+  return {
+    Octokit: class {
+      git = mockGit;
+      repos = mockRepos;
+      graphql = mockGraphql;
+    },
+  };
+});
+
+interface Account {
+  id: string;
+  balance: number;
+}
+
+describe("Transaction read-set conflicts", () => {
+  let storage: InMemoryStorageProvider;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({
+      initialData: {
+        "accounts.json": [
+          { id: "a", balance: 100 },
+          { id: "b", balance: 0 },
+        ],
+        "audit/1.json": { id: "1" },
+      },
+    });
+  });
+
+  it("should reject the commit if a file it read has changed", async () => {
+    const tx = new Transaction(storage);
+    const accounts = tx.collection<Account>("accounts");
+    await accounts.update("a", { balance: 50 });
+
+    await new Collection<Account>("accounts", storage).update("b", {
+      balance: 10,
+    });
+
+    const error = await tx.commit("Move money").catch((e) => e);
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect(error.paths).toEqual(["accounts.json"]);
+    expect(await new Collection<Account>("accounts", storage).find()).toEqual([
+      { id: "a", balance: 100 },
+      { id: "b", balance: 10 },
+    ]);
+  });
+
+  it("should reject the commit if a file read but not written has changed", async () => {
+    const tx = new Transaction(storage);
+    const audit = tx.collection("audit", { strategy: "sharded" });
+    expect(await audit.findById("1")).toEqual({ id: "1" });
+    await tx.collection<Account>("accounts").update("a", { balance: 0 });
+
+    await new Collection("audit", storage, { strategy: "sharded" }).update(
+      "1",
+      { checked: true }
+    );
+
+    await expect(tx.commit("msg")).rejects.toMatchObject({
+      paths: ["audit/1.json"],
+    });
+  });
+
+  it("should list every path that was created or deleted in the meantime", async () => {
+    const tx = new Transaction(storage);
+    const audit = tx.collection("audit", { strategy: "sharded" });
+    expect(await audit.findById("2")).toBeNull();
+    await audit.delete("1");
+
+    const other = new Collection("audit", storage, { strategy: "sharded" });
+    await other.create({ id: "2" });
+    await other.update("1", { checked: true });
+
+    const error = await tx.commit("msg").catch((e) => e);
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect(error.paths.sort()).toEqual(["audit/1.json", "audit/2.json"]);
+    expect(error.message).toContain("audit/2.json");
+  });
+
+  it("should reject a create if another writer created the file first", async () => {
+    const tx = new Transaction(storage);
+    await tx.collection("s", { strategy: "sharded" }).create({ id: "5", by: "tx" });
+
+    await new Collection("s", storage, { strategy: "sharded" }).create({
+      id: "5",
+      by: "other",
+    });
+
+    const error = await tx.commit("msg").catch((e) => e);
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect(error.paths).toEqual(["s/5.json"]);
+    expect((await storage.readJson("s/5.json")).data).toEqual({
+      id: "5",
+      by: "other",
+    });
+  });
+
+  it("should commit when only unrelated files changed", async () => {
+    const tx = new Transaction(storage);
+    await tx.collection<Account>("accounts").update("a", { balance: 50 });
+
+    await new Collection("audit", storage, { strategy: "sharded" }).create({
+      id: "2",
+    });
+
+    expect(await tx.commit("msg")).toMatch(/^[0-9a-f]{40}$/);
+    expect(
+      (await new Collection<Account>("accounts", storage).findById("a"))
+        ?.balance
+    ).toBe(50);
+  });
+
+  it("should not track directories it checked for existence", async () => {
+    const tx = new Transaction(storage);
+    expect(await tx.collection("notes", { strategy: "sharded" }).find()).toEqual([]);
+    await tx.collection<Account>("accounts").update("a", { balance: 50 });
+
+    await new Collection("notes", storage, { strategy: "sharded" }).create({
+      id: "1",
+    });
+
+    const commit = vi.spyOn(storage, "commit");
+    expect(await tx.commit("msg")).toMatch(/^[0-9a-f]{40}$/);
+    expect(Object.keys(commit.mock.calls[0][2]!.expectedShas!)).toEqual([
+      "accounts.json",
+    ]);
+  });
+
+  it("should rerun the transaction on the new data with retryOnConflict", async () => {
+    const db = new GitHubDB({ provider: "memory" });
+    // @ts-ignore - injecting seeded storage
+    db.storage = storage;
+    let runs = 0;
+
+    await db.transaction(
+      async (t) => {
+        const accounts = t.collection<Account>("accounts");
+        const a = (await accounts.findById("a"))!;
+        if (runs++ === 0) {
+          await new Collection<Account>("accounts", storage).update("a", {
+            balance: 70,
+          });
+        }
+        await accounts.update("a", { balance: a.balance - 20 });
+      },
+      "Withdraw",
+      { retryOnConflict: { maxAttempts: 2 } }
+    );
+
+    expect(runs).toBe(2);
+    expect(
+      (await new Collection<Account>("accounts", storage).findById("a"))
+        ?.balance
+    ).toBe(50);
+  });
+});
+
+describe("GitHub read-set verification", () => {
+  const config = {
+    accessToken: "test-token",
+    owner: "test-owner",
+    repo: "test-repo",
+    retry: false as const,
+  };
+  const changes = [{ path: "accounts.json", content: [] }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGit.getRef.mockResolvedValue({ data: { object: { sha: "head" } } });
+    mockGit.getCommit.mockResolvedValue({ data: { tree: { sha: "tree" } } });
+    mockGit.createTree.mockResolvedValue({ data: { sha: "new-tree", tree: [] } });
+    mockGit.createCommit.mockResolvedValue({ data: { sha: "new-commit" } });
+    mockGit.updateRef.mockResolvedValue({});
+  });
+
+  it("should check expected SHAs against the tree the commit is built on", async () => {
+    mockGit.getTree.mockResolvedValue({
+      data: {
+        truncated: false,
+        tree: [
+          { path: "accounts.json", type: "blob", sha: "sha-1" },
+          { path: "audit", type: "tree", sha: "sha-dir" },
+        ],
+      },
+    });
+    const provider = new GitHubStorageProvider(config);
+
+    await expect(
+      provider.commit(changes, "msg", {
+        expectedShas: { "accounts.json": "sha-1", audit: null },
+      })
+    ).resolves.toBe("new-commit");
+    expect(mockGit.getTree).toHaveBeenCalledWith(
+      expect.objectContaining({ tree_sha: "tree", recursive: "true" })
+    );
+
+    await expect(
+      provider.commit(changes, "msg", {
+        expectedShas: { "accounts.json": "sha-0", "audit/1.json": null },
+      })
+    ).rejects.toMatchObject({ paths: ["accounts.json"] });
+    expect(mockGit.createTree).toHaveBeenCalledTimes(1);
+  });
+
+  it("should look files up one by one when the tree is truncated", async () => {
+    mockGit.getTree.mockResolvedValue({ data: { truncated: true, tree: [] } });
+    mockRepos.getContent.mockImplementation(async ({ path }) => {
+      if (path === "accounts.json") {
+        return { data: { type: "file", sha: "sha-1" } };
+      }
+      throw Object.assign(new Error("Not Found"), { status: 404 });
+    });
+    const provider = new GitHubStorageProvider(config);
+
+    await provider.commit(changes, "msg", {
+      expectedShas: { "accounts.json": "sha-1", "audit/1.json": null },
+    });
+
+    expect(mockRepos.getContent).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "accounts.json", ref: "head" })
+    );
+    expect(mockGit.updateRef).toHaveBeenCalled();
+  });
+
+  it("should report a branch that moved before the ref update as a conflict", async () => {
+    mockGit.updateRef.mockRejectedValue(
+      Object.assign(new Error("Update is not a fast forward"), { status: 422 })
+    );
+    const provider = new GitHubStorageProvider(config);
+
+    await expect(provider.commit(changes, "msg")).rejects.toThrow(
+      ConcurrencyError
+    );
+    expect(mockGit.getTree).not.toHaveBeenCalled();
+  });
+
+  it("should read expected files in the GraphQL head query", async () => {
+    mockGraphql.mockResolvedValueOnce({
+      repository: {
+        ref: {
+          target: {
+            oid: "head",
+            file0: { type: "blob", oid: "sha-2" },
+            file1: null,
+          },
+        },
+      },
+    });
+    const provider = new GitHubStorageProvider({
+      ...config,
+      commitMode: "graphql",
+    });
+
+    const error = await provider
+      .commit(changes, "msg", {
+        expectedShas: { "accounts.json": "sha-1", "audit/1.json": null },
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConcurrencyError);
+    expect(error.paths).toEqual(["accounts.json"]);
+    expect(mockGraphql.mock.calls[0][0]).toContain(
+      "file1: file(path: $path1)"
+    );
+    expect(mockGraphql.mock.calls[0][1]).toMatchObject({
+      path0: "accounts.json",
+      path1: "audit/1.json",
+    });
+    expect(mockGraphql).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { TransactionStorageProvider } from "../src/infrastructure/transaction-storage.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+
+interface User {
+  id: string;
+  name: string;
+}
+
+describe("Transaction read-your-writes", () => {
+  let base: InMemoryStorageProvider;
+  let tx: TransactionStorageProvider;
+
+  beforeEach(() => {
+    base = new InMemoryStorageProvider({
+      initialData: {
+        "users/1.json": { id: "1", name: "Alice" },
+        "users/2.json": { id: "2", name: "Bob" },
+      },
+    });
+    tx = new TransactionStorageProvider(base);
+  });
+
+  it("should merge pending creates into directory listings", async () => {
+    await tx.writeJson("users/3.json", { id: "3" }, "msg");
+    await tx.writeJson("users/archive/4.json", { id: "4" }, "msg");
+
+    const entries = await tx.listDirectory("users");
+    expect(entries.map((e) => [e.path, e.type])).toEqual([
+      ["users/1.json", "file"],
+      ["users/2.json", "file"],
+      ["users/3.json", "file"],
+      ["users/archive", "dir"],
+    ]);
+  });
+
+  it("should hide pending deletions from listings, exists and reads", async () => {
+    await tx.deleteFile("users/1.json", "msg", "sha");
+
+    expect((await tx.listDirectory("users/")).map((e) => e.path)).toEqual([
+      "users/2.json",
+    ]);
+    expect(await tx.exists("users/1.json")).toBe(false);
+    await expect(tx.readJson("users/1.json")).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it("should treat a directory as missing once all its files are deleted", async () => {
+    expect(await tx.exists("users/")).toBe(true);
+    await tx.deleteFile("users/1.json", "msg", "sha");
+    expect(await tx.exists("users/")).toBe(true);
+    await tx.deleteFile("users/2.json", "msg", "sha");
+    expect(await tx.exists("users/")).toBe(false);
+
+    expect(await tx.exists("logs/")).toBe(false);
+    await tx.writeJson("logs/1.json", { id: "1" }, "msg");
+    expect(await tx.exists("logs/")).toBe(true);
+  });
+
+  it("should not change reads at a past commit", async () => {
+    const ref = await base.resolveRef("main");
+    await tx.deleteFile("users/1.json", "msg", "sha");
+
+    expect(await tx.exists("users/1.json", ref)).toBe(true);
+    expect((await tx.listDirectory("users", ref)).length).toBe(2);
+  });
+
+  it("should let sharded collections see their own writes", async () => {
+    const db = new GitHubDB({ provider: "memory" });
+    // @ts-ignore - injecting seeded storage
+    db.storage = base;
+
+    await db.transaction(async (t) => {
+      const users = t.collection<User>("users", { strategy: "sharded" });
+      await users.create({ id: "3", name: "Carol" });
+      await users.delete("1");
+
+      // A fresh instance has no in-memory state and reads through the transaction
+      const again = t.collection<User>("users", { strategy: "sharded" });
+      expect((await again.find()).map((u) => u.id).sort()).toEqual(["2", "3"]);
+      expect(await again.findById("1")).toBeNull();
+      expect(await again.findById("3")).toEqual({ id: "3", name: "Carol" });
+    });
+
+    expect((await base.listDirectory("users")).map((e) => e.path)).toEqual([
+      "users/2.json",
+      "users/3.json",
+    ]);
+  });
+});
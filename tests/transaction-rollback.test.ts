@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { InMemoryStorageProvider } from "../src/infrastructure/memory-storage.js";
+import { Transaction } from "../src/ui/transaction.js";
+import { GitHubDB } from "../src/ui/github-db.js";
+
+interface Row {
+  id: string;
+  value: number;
+}
+
+describe("Transaction rollback and savepoints", () => {
+  let storage: InMemoryStorageProvider;
+  let tx: Transaction;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageProvider({
+      initialData: { "rows.json": [{ id: "1", value: 1 }] },
+    });
+    tx = new Transaction(storage);
+  });
+
+  it("should preview pending changes as copies", async () => {
+    const rows = tx.collection<Row>("rows");
+    await rows.create({ id: "2", value: 2 });
+    await tx.collection("logs", { strategy: "sharded" }).create({ id: "L1" });
+
+    const preview = tx.preview();
+    expect(preview).toEqual([
+      {
+        path: "rows.json",
+        content: [
+          { id: "1", value: 1 },
+          { id: "2", value: 2 },
+        ],
+      },
+      { path: "logs/L1.json", content: { id: "L1" } },
+    ]);
+
+    preview[0].content.push({ id: "x", value: 0 });
+    expect(tx.preview()[0].content).toHaveLength(2);
+  });
+
+  it("should discard everything on rollback", async () => {
+    const rows = tx.collection<Row>("rows");
+    await rows.create({ id: "2", value: 2 });
+    tx.rollback();
+
+    expect(tx.preview()).toEqual([]);
+    expect(await rows.find()).toEqual([{ id: "1", value: 1 }]);
+    expect(await tx.commit("msg")).toBe("");
+  });
+
+  it("should restore the state of a savepoint", async () => {
+    const rows = tx.collection<Row>("rows");
+    await rows.create({ id: "2", value: 2 });
+    tx.savepoint("after-create");
+
+    await rows.update("1", { value: 10 });
+    await rows.delete("2");
+    tx.savepoint("after-delete");
+
+    tx.rollbackTo("after-create");
+
+    expect(await rows.find()).toEqual([
+      { id: "1", value: 1 },
+      { id: "2", value: 2 },
+    ]);
+    expect(() => tx.rollbackTo("after-delete")).toThrow(
+      "Unknown savepoint after-delete"
+    );
+
+    // The savepoint survives, so it can be rolled back to again
+    await rows.update("2", { value: 20 });
+    tx.rollbackTo("after-create");
+    expect((await rows.findById("2"))?.value).toBe(2);
+  });
+
+  it("should reset every collection instance of the transaction", async () => {
+    const first = tx.collection<Row>("rows", { strategy: "sharded" });
+    tx.savepoint("start");
+    await first.create({ id: "5", value: 5 });
+    const second = tx.collection<Row>("rows", { strategy: "sharded" });
+    expect(await second.findById("5")).toEqual({ id: "5", value: 5 });
+
+    tx.rollbackTo("start");
+
+    expect(await first.find()).toEqual([]);
+    expect(await second.findById("5")).toBeNull();
+  });
+
+  it("should let GitHubDB.transaction validate at the end and abort", async () => {
+    const db = new GitHubDB({ provider: "memory" });
+    // @ts-ignore - injecting seeded storage
+    db.storage = storage;
+    const commit = vi.spyOn(storage, "commit");
+
+    const sha = await db.transaction(async (t) => {
+      const rows = t.collection<Row>("rows");
+      for (const value of [2, 3, -1]) {
+        await rows.create({ id: String(value), value });
+      }
+      const invalid = t
+        .preview()
+        .flatMap((change) => change.content as Row[])
+        .some((row) => row.value < 0);
+      if (invalid) {
+        t.rollback();
+      }
+    });
+
+    expect(sha).toBe("");
+    expect(commit).not.toHaveBeenCalled();
+  });
+});
@@ -68,7 +68,9 @@ describe("Transactions & Batching", () => {
           expect.objectContaining({ path: "users.json" }),
           expect.objectContaining({ path: "logs.json" }),
         ]),
-        "Batch creation"
+        "Batch creation",
+        // Both files must still be at the version the transaction read
+        { expectedShas: { "users.json": "test-sha", "logs.json": "test-sha" } }
       );
     });
 